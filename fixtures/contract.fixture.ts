@@ -0,0 +1,27 @@
+import { test as restfulBookerTest } from './restfulBooker.fixture';
+
+import { ContractDriftDetector } from '../src/api/contract/contractDriftDetector';
+
+type contractFixtures = {
+  // Compares the responses of the configured API (live or stand-in) with the contract
+  contractDriftDetector: ContractDriftDetector;
+};
+
+export const contractFixtures = restfulBookerTest.extend<contractFixtures>({
+  contractDriftDetector: async (
+    { apiClient, apiBaseUrlBuilder, authStrategies, resourceRegistry },
+    use,
+  ) => {
+    await use(
+      new ContractDriftDetector(
+        apiClient,
+        apiBaseUrlBuilder,
+        authStrategies.create('cookie'),
+        resourceRegistry,
+      ),
+    );
+  },
+});
+
+export const test = contractFixtures;
+export const expect = restfulBookerTest.expect;
@@ -3,12 +3,41 @@ import { EnvironmentResolver } from '../src/config/environment/resolver/environm
 import { FetchCIEnvironmentVariables } from '../src/config/environment/resolver/fetchCIEnvironmentVariables';
 import { FetchLocalEnvironmentVariables } from '../src/config/environment/resolver/fetchLocalEnvironmentVariables';
 import { TEST_CONSTANTS } from '../src/utils/dataStore/testIds';
+import ENV from '../src/utils/environment/constants/environmentVariables';
+import ApiTrafficModeFlag from '../src/utils/environment/apiTrafficModeFlag';
+import FrozenClockFlag from '../src/utils/environment/frozenClockFlag';
+import ResourceCleanupFlag from '../src/utils/environment/resourceCleanupFlag';
+import SeedFlag from '../src/utils/environment/seedFlag';
+import StandInServerFlag from '../src/utils/environment/standInServerFlag';
+import logger from '../src/utils/logging/loggerManager';
+import Clock from '../src/utils/time/clock';
 
+import { ResourceRegistry } from '../src/api/cleanup/resourceRegistry';
 import { ApiClient } from '../src/api/client/apiClient';
+import { AuthStrategyFactory } from '../src/api/client/auth/authStrategyFactory';
+import { CorrelationIdInterceptor } from '../src/api/client/interceptors/correlationIdInterceptor';
+import { TimingInterceptor } from '../src/api/client/interceptors/timingInterceptor';
+import { TrafficRecorderInterceptor } from '../src/api/client/interceptors/trafficRecorderInterceptor';
+import { HarRecordingStore } from '../src/api/client/recording/harRecordingStore';
+import { HarReplayAdapter } from '../src/api/client/recording/harReplayAdapter';
 import { ApiBaseUrlBuilder } from '../src/api/endpoints/apiBaseUrlBuilder';
 import { BookingEndpointBuilder } from '../src/api/endpoints/bookingEndpointBuilder';
+import { BookingFlow } from '../src/api/flows/bookingFlow';
+import { FuzzRunner } from '../src/api/fuzz/fuzzRunner';
+import { NegativeScenarioRunner } from '../src/api/negative/negativeScenarioRunner';
 import { AuthenticationToken } from '../src/api/services/authenticationToken';
 import { Booking } from '../src/api/services/booking';
+import { HealthCheck } from '../src/api/services/healthCheck';
+import { TokenManager } from '../src/api/services/tokenManager';
+import { RestfulBookerStandInServer } from '../src/api/standIn/restfulBookerStandInServer';
+import { AUTH_STRATEGY_PARAMS } from '../src/models/api/authStrategy.interface';
+import { EmptyFlowContext } from '../src/models/api/bookingFlow.interface';
+import { BOOKING_FACTORY_PARAMS } from '../src/models/api/bookingFactory.interface';
+import { ApiTrafficMode, HAR_RECORDING_PARAMS } from '../src/models/api/trafficRecording.interface';
+import { UserCredentials } from '../src/models/utils/userCredentials.interface';
+import { BookingFactory } from '../src/testData/factories/bookingFactory';
+import { SeededRandom } from '../src/testData/random/seededRandom';
+import { TemplateEngine } from '../src/testData/templates/templateEngine';
 
 type restfulbookerFixtures = {
   // Common
@@ -17,16 +46,134 @@ type restfulbookerFixtures = {
   fetchLocalEnvironmentVariables: FetchLocalEnvironmentVariables;
   testInfo: TestInfo;
   testId: typeof TEST_CONSTANTS;
+  // Time the Clock is frozen at during the test: the recording time in replay, else FROZEN_CLOCK_AT
+  frozenClock: Date | null;
+  // Seed of the test's generated data, from TEST_DATA_SEED, the HAR recording in replay, or random
+  testDataSeed: number;
+  bookingFactory: BookingFactory;
+  // Resolves `${...}` placeholders in test-data templates; `${random.*}` draws from bookingFactory
+  templateEngine: TemplateEngine;
 
   // API
+  trafficRecorder: TrafficRecorderInterceptor;
+  // Answers requests from the test's HAR recording, null unless API_TRAFFIC_MODE=replay
+  harReplayAdapter: HarReplayAdapter | null;
   apiClient: ApiClient;
   apiBaseUrlBuilder: ApiBaseUrlBuilder;
   bookingEndpointBuilder: BookingEndpointBuilder;
   authenticationToken: AuthenticationToken;
+  // Bookings created by the test, deleted in its teardown unless KEEP_CREATED_RESOURCES=true
+  resourceRegistry: ResourceRegistry;
   booking: Booking;
+  healthCheck: HealthCheck;
+  // Creates cookie, basic and bearer auth strategies for protected requests
+  authStrategies: AuthStrategyFactory;
+  // Sends generated payloads and shrinks the ones that fail
+  fuzzRunner: FuzzRunner;
+  // Sends the negative-scenario catalogue and reports which scenarios the API rejects
+  negativeScenarioRunner: NegativeScenarioRunner;
+  // Starts a typed multi-step booking flow, e.g. flow().authenticate().createBooking().run()
+  flow: () => BookingFlow<EmptyFlowContext>;
 };
 
-const restfulBookerTests = baseTest.extend<restfulbookerFixtures>({
+type restfulBookerWorkerFixtures = {
+  // Local stand-in for the Restful Booker host, null unless USE_STAND_IN_SERVER=true
+  standInServer: RestfulBookerStandInServer | null;
+  // live, record or replay, from API_TRAFFIC_MODE
+  apiTrafficMode: ApiTrafficMode;
+  // Authentication token shared by the tests of a worker, refreshed when the API rejects it
+  tokenManager: TokenManager;
+};
+
+/**
+ * Resolves the credentials the stand-in server should accept. Falls back to the
+ * public demo credentials when the environment does not provide any.
+ */
+async function resolveStandInCredentials(): Promise<UserCredentials | undefined> {
+  try {
+    const environmentResolver = new EnvironmentResolver(
+      new FetchCIEnvironmentVariables(),
+      new FetchLocalEnvironmentVariables(),
+    );
+    return await environmentResolver.getTokenCredentials();
+  } catch {
+    logger.warn('No token credentials configured, stand-in server will accept the demo defaults');
+    return undefined;
+  }
+}
+
+/**
+ * Points the API base URL (local and CI) at the given stand-in server URL.
+ */
+function pointApiBaseUrlAt(url: string): void {
+  process.env.API_BASE_URL = url;
+  process.env.CI_API_BASE_URL = url;
+  ENV.API_BASE_URL = url;
+}
+
+const restfulBookerTests = baseTest.extend<restfulbookerFixtures, restfulBookerWorkerFixtures>({
+  // Worker
+  apiTrafficMode: [
+    async ({}, use) => {
+      const mode = ApiTrafficModeFlag.getMode();
+
+      // Replay never touches the network, so it does not depend on a configured host
+      if (mode === 'replay') {
+        pointApiBaseUrlAt(HAR_RECORDING_PARAMS.REPLAY_BASE_URL);
+      }
+
+      await use(mode);
+    },
+    { scope: 'worker', auto: true },
+  ],
+  standInServer: [
+    async ({ apiTrafficMode }, use) => {
+      if (apiTrafficMode === 'replay' || !StandInServerFlag.shouldUseStandInServer()) {
+        await use(null);
+        return;
+      }
+
+      const server = await RestfulBookerStandInServer.start({
+        credentials: await resolveStandInCredentials(),
+      });
+      pointApiBaseUrlAt(server.getBaseUrl());
+
+      await use(server);
+      await server.stop();
+    },
+    { scope: 'worker', auto: true },
+  ],
+  tokenManager: [
+    async ({ apiTrafficMode, standInServer: _standInServer }, use) => {
+      // Tokens are masked in recordings and replayed requests are not matched on them
+      if (apiTrafficMode === 'replay') {
+        await use(
+          new TokenManager({ requestToken: async () => HAR_RECORDING_PARAMS.REPLAY_TOKEN }),
+        );
+        return;
+      }
+
+      // Depends on standInServer so the base URL already points at the stand-in when one is used
+      const environmentResolver = new EnvironmentResolver(
+        new FetchCIEnvironmentVariables(),
+        new FetchLocalEnvironmentVariables(),
+      );
+      const apiBaseUrlBuilder = await ApiBaseUrlBuilder.create(environmentResolver);
+      const apiClient = (await ApiClient.create(apiBaseUrlBuilder))
+        .useInterceptor(new CorrelationIdInterceptor())
+        .useInterceptor(new TimingInterceptor());
+      const authenticationToken = new AuthenticationToken(
+        apiClient,
+        new BookingEndpointBuilder(apiBaseUrlBuilder),
+        environmentResolver,
+        new TemplateEngine(),
+      );
+
+      await use(new TokenManager(authenticationToken));
+    },
+    { scope: 'worker' },
+  ],
+
   // Common
   fetchCIEnvironmentVariables: async ({}, use) => {
     await use(new FetchCIEnvironmentVariables());
@@ -46,10 +193,78 @@ const restfulBookerTests = baseTest.extend<restfulbookerFixtures>({
   testId: async ({}, use) => {
     await use(TEST_CONSTANTS);
   },
+  frozenClock: [
+    async ({ harReplayAdapter }, use) => {
+      // Date-based test data must match what was sent when the traffic was recorded
+      const frozenAt = harReplayAdapter?.getRecordedAt() ?? FrozenClockFlag.getFrozenAt() ?? null;
+      if (frozenAt) {
+        Clock.freeze(frozenAt);
+      }
+
+      await use(frozenAt);
+      Clock.unfreeze();
+    },
+    { auto: true },
+  ],
+  testDataSeed: async ({ harReplayAdapter, trafficRecorder }, use, testInfo) => {
+    const seed =
+      harReplayAdapter?.getTestDataSeed() ??
+      SeedFlag.getSeed(BOOKING_FACTORY_PARAMS.SEED_VARIABLE) ??
+      SeededRandom.createSeed();
+    trafficRecorder.setTestDataSeed(seed);
+    testInfo.annotations.push({ type: 'test-data-seed', description: String(seed) });
+    // Date-based test data depends on the time as well as the seed
+    const startedAt = Clock.now().toISOString();
+
+    await use(seed);
+
+    if (testInfo.status !== testInfo.expectedStatus) {
+      logger.error(
+        `'${testInfo.title}' failed with test data seed ${seed} at ${startedAt}. ` +
+          `Reproduce it with ${BOOKING_FACTORY_PARAMS.SEED_VARIABLE}=${seed} FROZEN_CLOCK_AT=${startedAt}`,
+      );
+    }
+  },
+  bookingFactory: async ({ testDataSeed }, use) => {
+    await use(new BookingFactory(new SeededRandom(testDataSeed)));
+  },
+  templateEngine: async ({ bookingFactory }, use) => {
+    await use(new TemplateEngine(bookingFactory.generators()));
+  },
 
   // API
-  apiClient: async ({}, use) => {
-    await use(new ApiClient());
+  trafficRecorder: async ({ apiTrafficMode }, use, testInfo) => {
+    const recorder = new TrafficRecorderInterceptor();
+    await use(recorder);
+
+    if (apiTrafficMode === 'record') {
+      await HarRecordingStore.save(testInfo, recorder.toHar());
+    }
+    await recorder.attachTo(testInfo);
+  },
+  harReplayAdapter: async ({ apiTrafficMode }, use, testInfo) => {
+    if (apiTrafficMode !== 'replay') {
+      await use(null);
+      return;
+    }
+
+    const recordingPath = HarRecordingStore.getRecordingPath(testInfo);
+    const replayAdapter = new HarReplayAdapter(
+      await HarRecordingStore.load(testInfo),
+      recordingPath,
+    );
+
+    await use(replayAdapter);
+  },
+  apiClient: async ({ apiBaseUrlBuilder, trafficRecorder, harReplayAdapter }, use) => {
+    const apiClient = await ApiClient.create(apiBaseUrlBuilder, {
+      adapter: harReplayAdapter?.adapter,
+    });
+    apiClient
+      .useInterceptor(new CorrelationIdInterceptor())
+      .useInterceptor(new TimingInterceptor())
+      .useInterceptor(trafficRecorder);
+    await use(apiClient);
   },
   apiBaseUrlBuilder: async ({ environmentResolver }, use) => {
     await use(await ApiBaseUrlBuilder.create(environmentResolver));
@@ -57,11 +272,75 @@ const restfulBookerTests = baseTest.extend<restfulbookerFixtures>({
   bookingEndpointBuilder: async ({ apiBaseUrlBuilder }, use) => {
     await use(new BookingEndpointBuilder(apiBaseUrlBuilder));
   },
-  authenticationToken: async ({ apiClient, bookingEndpointBuilder, environmentResolver }, use) => {
-    await use(new AuthenticationToken(apiClient, bookingEndpointBuilder, environmentResolver));
+  authenticationToken: async (
+    { apiClient, bookingEndpointBuilder, environmentResolver, templateEngine },
+    use,
+  ) => {
+    await use(
+      new AuthenticationToken(
+        apiClient,
+        bookingEndpointBuilder,
+        environmentResolver,
+        templateEngine,
+      ),
+    );
+  },
+  resourceRegistry: async (
+    { apiClient, bookingEndpointBuilder, authStrategies },
+    use,
+    testInfo,
+  ) => {
+    const registry = new ResourceRegistry(apiClient, bookingEndpointBuilder, testInfo.title);
+    await use(registry);
+
+    if (ResourceCleanupFlag.shouldKeepCreatedResources()) {
+      logger.info(`Keeping ${registry.getTracked().length} resource(s) of '${testInfo.title}'`);
+      return;
+    }
+    // Runs before the traffic recorder's teardown, so the deletions are recorded and replayed
+    await registry.cleanup(authStrategies.create('cookie'));
+  },
+  booking: async ({ apiClient, bookingEndpointBuilder, bookingFactory, resourceRegistry }, use) => {
+    await use(new Booking(apiClient, bookingEndpointBuilder, bookingFactory, resourceRegistry));
+  },
+  healthCheck: async ({ apiClient, bookingEndpointBuilder }, use) => {
+    await use(new HealthCheck(apiClient, bookingEndpointBuilder));
+  },
+  authStrategies: async ({ apiTrafficMode, tokenManager, environmentResolver }, use) => {
+    // Authorization headers are masked in recordings, so replay does not need real credentials
+    const credentialsSource =
+      apiTrafficMode === 'replay'
+        ? { getTokenCredentials: async () => AUTH_STRATEGY_PARAMS.REPLAY_CREDENTIALS }
+        : environmentResolver;
+    await use(new AuthStrategyFactory(tokenManager, credentialsSource));
+  },
+  fuzzRunner: async ({ apiClient, resourceRegistry }, use) => {
+    await use(new FuzzRunner(apiClient, resourceRegistry));
+  },
+  negativeScenarioRunner: async (
+    {
+      apiClient,
+      bookingEndpointBuilder,
+      booking,
+      bookingFactory,
+      authStrategies,
+      resourceRegistry,
+    },
+    use,
+  ) => {
+    await use(
+      new NegativeScenarioRunner(
+        apiClient,
+        bookingEndpointBuilder,
+        booking,
+        bookingFactory,
+        authStrategies,
+        resourceRegistry,
+      ),
+    );
   },
-  booking: async ({ apiClient, bookingEndpointBuilder }, use) => {
-    await use(new Booking(apiClient, bookingEndpointBuilder));
+  flow: async ({ booking, authStrategies }, use) => {
+    await use(() => BookingFlow.start(booking, authStrategies));
   },
 });
 
@@ -61,6 +61,7 @@ export default defineConfig({
   },
   testDir: './tests',
   globalSetup: './src/config/environment/global/globalEnvironmentSetup.ts',
+  globalTeardown: './src/config/environment/global/globalEnvironmentTeardown.ts',
   /* Run tests in files in parallel */
   fullyParallel: true,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
@@ -121,9 +122,15 @@ export default defineConfig({
      *      like crypto or database-only operations
      */
     ...(!shouldSkipBrowserInit ? [] : []),
+    // Stores test data the other projects read; shared across workers only with TEST_DATA_STORE=file
+    {
+      name: 'setup',
+      testMatch: /.*\.setup\.ts/,
+    },
     {
       name: 'chromium',
       use: { ...devices['Desktop Chrome'] },
+      dependencies: ['setup'],
     },
 
     // {
@@ -0,0 +1,16 @@
+import { ContractGenerator } from '../src/api/contract/contractGenerator';
+import logger from '../src/utils/logging/loggerManager';
+
+/**
+ * Regenerates the interfaces, schemas and templates from the OpenAPI contract.
+ * Run with `npm run generate:contract`; kept out of the test suite so no test run rewrites them.
+ */
+async function main(): Promise<void> {
+  const files = await new ContractGenerator().generate();
+  logger.info(`Contract generation completed successfully: ${files.join(', ')}`);
+}
+
+main().catch(() => {
+  // ContractGenerator has already logged the error
+  process.exitCode = 1;
+});
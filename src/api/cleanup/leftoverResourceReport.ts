@@ -0,0 +1,56 @@
+import {
+  LeftoverResource,
+  RESOURCE_CLEANUP_PARAMS,
+} from '../../models/api/resourceCleanup.interface';
+import { JsonFileStoreBackend } from '../../utils/dataStore/backends/jsonFileStoreBackend';
+import { TestDataMap } from '../../utils/dataStore/maps/testDataMap';
+import logger from '../../utils/logging/loggerManager';
+
+/**
+ * Collects the resources the teardown of any worker could not delete, in a JSON file
+ * (RESOURCE_CLEANUP_PARAMS.LEFTOVERS_PATH), and reports them at the end of the run.
+ */
+export default class LeftoverResourceReport {
+  private static readonly leftovers = new TestDataMap<LeftoverResource>(
+    RESOURCE_CLEANUP_PARAMS.LEFTOVERS_NAMESPACE,
+    new JsonFileStoreBackend(RESOURCE_CLEANUP_PARAMS.LEFTOVERS_PATH),
+  );
+
+  /**
+   * Forgets the leftovers of earlier runs; called once before the tests start.
+   */
+  public static async reset(): Promise<void> {
+    await this.leftovers.clear();
+  }
+
+  public static async add(leftover: LeftoverResource): Promise<void> {
+    await this.leftovers.update(`${leftover.resourceType}:${leftover.id}`, () => leftover);
+  }
+
+  /**
+   * Logs every leftover of the run with the test that created it.
+   *
+   * @returns The leftovers, empty if every created resource was deleted
+   */
+  public static async report(): Promise<LeftoverResource[]> {
+    const leftovers = Object.values(await this.leftovers.entries());
+
+    if (leftovers.length === 0) {
+      logger.info('Every resource created by the tests was deleted');
+      return leftovers;
+    }
+
+    logger.warn(
+      `${leftovers.length} resource(s) created by the tests could not be deleted ` +
+        `(see ${RESOURCE_CLEANUP_PARAMS.LEFTOVERS_PATH}):\n` +
+        leftovers
+          .map(
+            ({ resourceType, id, testTitle, status, reason }) =>
+              `- ${resourceType} ${id} from '${testTitle}': ` +
+              (status === undefined ? reason : `answered ${status}, ${reason}`),
+          )
+          .join('\n'),
+    );
+    return leftovers;
+  }
+}
@@ -0,0 +1,149 @@
+import LeftoverResourceReport from './leftoverResourceReport';
+import { ApiClient } from '../client/apiClient';
+import { BookingEndpointBuilder } from '../endpoints/bookingEndpointBuilder';
+import { ResourceType } from '../types/resourceTypes.type';
+import { RequestAuthorization } from '../../models/api/apiClient.interface';
+import {
+  CleanupResult,
+  RESOURCE_CLEANUP_PARAMS,
+  TrackedResource,
+} from '../../models/api/resourceCleanup.interface';
+import logger from '../../utils/logging/loggerManager';
+import Clock from '../../utils/time/clock';
+
+/**
+ * Tracks the resources a test creates on the server, so its fixture teardown can delete them,
+ * also when the test failed. Resources that cannot be deleted are added to the
+ * LeftoverResourceReport of the run.
+ */
+export class ResourceRegistry {
+  private readonly resources = new Map<string, TrackedResource>();
+
+  /**
+   * @param apiClient - Client the deletions are sent with
+   * @param endpointBuilder - Builds the endpoints of the tracked resources
+   * @param testTitle - Title of the test the resources belong to, for the leftover report
+   */
+  constructor(
+    private readonly apiClient: ApiClient,
+    private readonly endpointBuilder: BookingEndpointBuilder,
+    private readonly testTitle: string,
+  ) {}
+
+  public track(resourceType: ResourceType, id: number | string): void {
+    this.resources.set(this.getKey(resourceType, id), {
+      resourceType,
+      id,
+      testTitle: this.testTitle,
+      createdAt: Clock.now().toISOString(),
+    });
+    logger.debug(`Tracking ${resourceType} ${id} for cleanup`);
+  }
+
+  /**
+   * Tracks the resource a successful create answered with. Restful Booker returns the new ID
+   * as `<resourceType>id`, e.g. `bookingid`.
+   *
+   * @param body - Body of the create response
+   * @returns The tracked ID, undefined if the body carries none
+   */
+  public trackCreated(resourceType: ResourceType, body: unknown): number | string | undefined {
+    const id =
+      body !== null && typeof body === 'object'
+        ? (body as Record<string, unknown>)[`${resourceType}id`]
+        : undefined;
+
+    if (typeof id !== 'number' && typeof id !== 'string') {
+      logger.warn(`Created ${resourceType} has no ${resourceType}id and cannot be cleaned up`);
+      return undefined;
+    }
+
+    this.track(resourceType, id);
+    return id;
+  }
+
+  /**
+   * Stops tracking a resource, e.g. because the test deleted it itself.
+   * @returns True if the resource was tracked
+   */
+  public untrack(resourceType: ResourceType, id: number | string): boolean {
+    return this.resources.delete(this.getKey(resourceType, id));
+  }
+
+  public getTracked(): TrackedResource[] {
+    return Array.from(this.resources.values());
+  }
+
+  /**
+   * Deletes every tracked resource, newest first. A resource that is already gone counts as
+   * cleaned up; one that cannot be deleted is reported as a leftover instead of failing the test.
+   * Neither does a leftover that cannot be written to the report.
+   *
+   * @param authorization - Authorization the deletions are sent with
+   * @returns What was deleted, what was already gone and what was left over
+   */
+  public async cleanup(authorization: RequestAuthorization): Promise<CleanupResult> {
+    const result: CleanupResult = { deleted: [], alreadyGone: [], leftovers: [] };
+    if (this.resources.size === 0) {
+      return result;
+    }
+
+    for (const resource of this.getTracked().reverse()) {
+      const { resourceType, id } = resource;
+
+      try {
+        const endpoint = await this.endpointBuilder.resourceEndpoint(resourceType, id);
+        const { status } = await this.apiClient.sendDeleteRequest(endpoint, authorization);
+
+        if (RESOURCE_CLEANUP_PARAMS.DELETED_STATUSES.includes(status)) {
+          result.deleted.push(resource);
+        } else if (RESOURCE_CLEANUP_PARAMS.GONE_STATUSES.includes(status)) {
+          result.alreadyGone.push(resource);
+        } else {
+          result.leftovers.push({
+            ...resource,
+            status,
+            reason: `expected one of ${this.getAcceptedStatuses().join(', ')}`,
+          });
+        }
+      } catch (error) {
+        result.leftovers.push({
+          ...resource,
+          reason: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      this.untrack(resourceType, id);
+    }
+
+    for (const leftover of result.leftovers) {
+      const answer = leftover.status === undefined ? '' : ` (answered ${leftover.status})`;
+      logger.warn(
+        `Could not delete ${leftover.resourceType} ${leftover.id}${answer}: ${leftover.reason}`,
+      );
+
+      try {
+        await LeftoverResourceReport.add(leftover);
+      } catch (error) {
+        logger.warn(
+          `Could not report leftover ${leftover.resourceType} ${leftover.id}: ` +
+            (error instanceof Error ? error.message : String(error)),
+        );
+      }
+    }
+
+    logger.info(
+      `Cleanup of '${this.testTitle}': ${result.deleted.length} deleted, ` +
+        `${result.alreadyGone.length} already gone, ${result.leftovers.length} left over`,
+    );
+    return result;
+  }
+
+  private getAcceptedStatuses(): number[] {
+    return [...RESOURCE_CLEANUP_PARAMS.DELETED_STATUSES, ...RESOURCE_CLEANUP_PARAMS.GONE_STATUSES];
+  }
+
+  private getKey(resourceType: ResourceType, id: number | string): string {
+    return `${resourceType}:${id}`;
+  }
+}
@@ -1,49 +1,194 @@
-import axios, { AxiosResponse } from 'axios';
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { ApiRetryPolicy } from './apiRetryPolicy';
+import { ApiInterceptorChain } from './interceptors/apiInterceptorChain';
+import { ApiBaseUrlBuilder } from '../endpoints/apiBaseUrlBuilder';
+import {
+  ApiClientOptions,
+  DEFAULT_API_CLIENT_OPTIONS,
+  HttpMethod,
+  RequestAuthorization,
+  RequestOptions,
+} from '../../models/api/apiClient.interface';
+import { AUTH_STRATEGY_PARAMS, AuthStrategy } from '../../models/api/authStrategy.interface';
+import { ApiInterceptor, ApiRequestContext } from '../../models/api/apiInterceptor.interface';
+import { ErrorCategory } from '../../models/utils/errorCategory.enum';
+import { AppError } from '../../utils/errors/AppError';
 import ApiErrorHandler from '../../utils/errors/apiErrorResponseBuilder';
 import ErrorHandler from '../../utils/errors/errorHandler';
+import logger from '../../utils/logging/loggerManager';
 
 export class ApiClient {
+  // Interceptors applied to every ApiClient instance
+  private static readonly globalInterceptors = new ApiInterceptorChain();
+
+  // Interceptors applied to this instance only
+  private readonly interceptors = new ApiInterceptorChain();
+
   // Default headers
   private defaultHeaders: { [key: string]: string };
 
+  // Retry policy applied to transient failures
+  private retryPolicy: ApiRetryPolicy;
+
+  // Dedicated axios instance, isolated from anything configured on the global axios object
+  private httpClient: AxiosInstance;
+
+  // Default timeout applied when a request does not override it
+  private timeoutMs: number;
+
+  // Base URL relative endpoints are resolved against
+  private baseUrl?: string;
+
   /**
-   * Initializes the RestHttpClient with default headers.
+   * Initializes the RestHttpClient with default headers, a retry policy and its own axios instance.
    * The default headers set "Content-Type" to "application/json".
+   *
+   * @param options - Optional overrides for DEFAULT_API_CLIENT_OPTIONS
    */
-  constructor() {
+  constructor(options: Partial<ApiClientOptions> = {}) {
+    const { baseUrl, timeoutMs, maxBodyLength, maxContentLength, retryPolicy, adapter } = {
+      ...DEFAULT_API_CLIENT_OPTIONS,
+      ...options,
+    };
+
     this.defaultHeaders = {
       'Content-Type': 'application/json',
       Accept: 'application/json',
     };
+    this.retryPolicy = new ApiRetryPolicy(retryPolicy);
+    this.timeoutMs = timeoutMs;
+    this.baseUrl = baseUrl;
+    this.httpClient = axios.create({
+      baseURL: baseUrl,
+      timeout: timeoutMs,
+      maxBodyLength,
+      maxContentLength,
+      adapter,
+    });
+  }
+
+  /**
+   * Factory method for creating an ApiClient whose axios instance uses the resolved API base URL
+   *
+   * @param apiBaseUrlBuilder - An initialized base URL builder
+   * @param options - Optional overrides for DEFAULT_API_CLIENT_OPTIONS
+   * @returns A promise that resolves with the ApiClient
+   * @throws Will throw an error if the base URL cannot be resolved
+   */
+  public static async create(
+    apiBaseUrlBuilder: ApiBaseUrlBuilder,
+    options: Partial<ApiClientOptions> = {},
+  ): Promise<ApiClient> {
+    try {
+      await apiBaseUrlBuilder.initialize();
+      return new ApiClient({ baseUrl: apiBaseUrlBuilder.getBaseUrl(), ...options });
+    } catch (error) {
+      ErrorHandler.captureError(error, 'create', 'Failed to create ApiClient');
+      throw error;
+    }
+  }
+
+  /**
+   * Registers an interceptor for every ApiClient instance, replacing any global interceptor with the same name.
+   */
+  public static useGlobalInterceptor(interceptor: ApiInterceptor): void {
+    ApiClient.globalInterceptors.add(interceptor);
+  }
+
+  /**
+   * Removes a global interceptor by name.
+   * @returns True if an interceptor was removed
+   */
+  public static removeGlobalInterceptor(name: string): boolean {
+    return ApiClient.globalInterceptors.remove(name);
+  }
+
+  /**
+   * Registers an interceptor for this instance only, replacing any instance interceptor with the same name.
+   * Global and instance interceptors run together, sorted by their `order`.
+   *
+   * @returns This client, for chaining
+   */
+  public useInterceptor(interceptor: ApiInterceptor): this {
+    this.interceptors.add(interceptor);
+    return this;
+  }
+
+  /**
+   * Removes an instance interceptor by name.
+   * @returns True if an interceptor was removed
+   */
+  public removeInterceptor(name: string): boolean {
+    return this.interceptors.remove(name);
   }
 
   public setCookieToken(token: string): string {
     return `token=${token}`;
   }
 
-  private createHeaders(authHeaders?: string | { [key: string]: string }): {
+  private async createHeaders(authorization?: RequestAuthorization): Promise<{
     [key: string]: string;
-  } {
+  }> {
     const headers = { ...this.defaultHeaders };
 
-    if (authHeaders) {
-      if (typeof authHeaders === 'string') {
-        if (authHeaders.startsWith('Bearer ')) {
-          headers['Authorization'] = authHeaders;
+    if (authorization) {
+      if (typeof authorization === 'string') {
+        if (authorization.startsWith('Bearer ')) {
+          headers['Authorization'] = authorization;
         } else {
-          headers['Cookie'] = authHeaders;
+          headers['Cookie'] = authorization;
         }
+      } else if (this.isAuthStrategy(authorization)) {
+        Object.assign(headers, await authorization.getHeaders());
       } else {
         // Merge the provided headers object into the default headers
-        Object.assign(headers, authHeaders);
+        Object.assign(headers, authorization);
       }
     }
 
     return headers;
   }
 
+  private isAuthStrategy(authorization: RequestAuthorization): authorization is AuthStrategy {
+    return typeof (authorization as AuthStrategy).getHeaders === 'function';
+  }
+
+  /**
+   * Sends a request with the given authorization. If an AuthStrategy is rejected with 403
+   * and can refresh its credentials, the request is sent once more with the fresh credentials.
+   */
+  private async sendAuthorizedRequest<T>(
+    method: HttpMethod,
+    endpoint: string,
+    payload: object | undefined,
+    authorization: RequestAuthorization | undefined,
+    options?: RequestOptions,
+  ): Promise<AxiosResponse<T>> {
+    const headers = await this.createHeaders(authorization);
+    const response = await this.sendRequest<T>(method, endpoint, payload, headers, options);
+
+    if (
+      response?.status === AUTH_STRATEGY_PARAMS.REJECTED_STATUS &&
+      authorization &&
+      this.isAuthStrategy(authorization) &&
+      (await authorization.refresh?.(headers))
+    ) {
+      logger.warn(
+        `${method.toUpperCase()} ${endpoint} was rejected with ${response.status}, ` +
+          `retrying once with refreshed '${authorization.name}' credentials`,
+      );
+      const refreshedHeaders = await this.createHeaders(authorization);
+      return this.sendRequest<T>(method, endpoint, payload, refreshedHeaders, options);
+    }
+
+    return response;
+  }
+
   /**
    * Sends an HTTP request using the specified method, endpoint, payload, and headers.
+   * Request interceptors run once before the first attempt and response interceptors once on the final response;
+   * error interceptors run instead if no response could be obtained.
+   * Transient failures are retried according to the retry policy before giving up.
    * Handles errors by logging them and returning the error response if it is an Axios error.
    *
    * @template T - The expected response type.
@@ -51,43 +196,150 @@ export class ApiClient {
    * @param endpoint - The URL endpoint to which the request is sent.
    * @param payload - The optional payload to be included in the request body.
    * @param headers - Optional headers to be included in the request.
+   * @param options - Optional per-request overrides such as the timeout, headers or a raw body,
+   * and the request's expectation.
    * @returns A promise that resolves with the Axios response of the specified type.
+   * @throws AppError with ErrorCategory.TIMEOUT if the final attempt timed out.
    * @throws Will throw an error if an unexpected error occurs.
    */
   private async sendRequest<T>(
-    method: 'post' | 'put' | 'patch' | 'get' | 'delete',
+    method: HttpMethod,
     endpoint: string,
     payload?: object,
     headers?: { [key: string]: string },
+    options: RequestOptions = {},
   ): Promise<AxiosResponse<T>> {
-    try {
-      const config = { headers };
+    const interceptors = ApiInterceptorChain.merge(ApiClient.globalInterceptors, this.interceptors);
+    const request: ApiRequestContext = {
+      method,
+      endpoint,
+      payload: options.rawBody ?? payload,
+      headers: { ...headers, ...options.headers },
+      timeoutMs: options.timeoutMs ?? this.timeoutMs,
+      baseUrl: this.baseUrl,
+      expectation: options.expectation,
+      metadata: {},
+    };
 
-      // Handle different parameter orders for different HTTP methods
-      if (method === 'get' || method === 'delete') {
-        return await axios[method](endpoint, config);
-      } else {
-        return await axios[method](endpoint, payload, config);
-      }
+    await interceptors.runRequestHooks(request);
+
+    const startedAt = performance.now();
+    let response: AxiosResponse<T>;
+    try {
+      response = await this.sendWithRetry<T>(request);
     } catch (error) {
-      // If the error is an Axios error, we can return the response directly
-      if (axios.isAxiosError(error) && error.response) {
-        ApiErrorHandler.captureApiError(
-          error,
-          `${method.toUpperCase()} Request`,
-          `Failed to send ${method.toUpperCase()} request to ${endpoint}`,
-        );
-        return error.response; // Return the error response
+      await interceptors.runErrorHooks(error, request);
+      throw error;
+    }
+
+    response.config.durationMs = Math.round(performance.now() - startedAt);
+    await interceptors.runResponseHooks(response, request);
+    return response;
+  }
+
+  /**
+   * Sends the request, retrying transient failures according to the retry policy.
+   */
+  private async sendWithRetry<T>(request: ApiRequestContext): Promise<AxiosResponse<T>> {
+    const { method, endpoint } = request;
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await this.dispatch<T>(request);
+        response.config.attempts = attempt;
+        return response;
+      } catch (error) {
+        if (this.retryPolicy.shouldRetry(method, error, attempt)) {
+          const delay = this.retryPolicy.getDelay(attempt, error);
+          logger.warn(
+            `Retrying ${method.toUpperCase()} ${endpoint} after ${this.retryPolicy.describeFailure(error)} ` +
+              `(attempt ${attempt + 1}/${this.retryPolicy.maxAttempts}, waiting ${delay}ms)`,
+          );
+          await ApiRetryPolicy.wait(delay);
+          continue;
+        }
+
+        return this.handleRequestFailure<T>(error, method, endpoint, attempt, request.timeoutMs);
       }
+    }
+  }
+
+  /**
+   * Performs a single HTTP call on the dedicated axios instance.
+   */
+  private async dispatch<T>(request: ApiRequestContext): Promise<AxiosResponse<T>> {
+    const { method, endpoint, payload, headers, timeoutMs, expectation } = request;
+
+    // Request bodies are only sent for methods that carry one
+    const data = method === 'get' || method === 'delete' ? undefined : payload;
 
-      // For other errors, handle them normally
-      ErrorHandler.captureError(
+    return await this.httpClient.request<T>({
+      method,
+      url: endpoint,
+      data,
+      headers,
+      timeout: timeoutMs,
+      expectation,
+      // Raw bodies bypass axios serialisation, which would otherwise quote malformed JSON
+      ...(typeof data === 'string' && { transformRequest: [(body: string) => body] }),
+    });
+  }
+
+  /**
+   * Handles a request that failed after its final attempt.
+   * Axios errors carrying a response are logged and the response is returned;
+   * timeouts are rethrown as an AppError with ErrorCategory.TIMEOUT;
+   * anything else is logged and rethrown.
+   */
+  private handleRequestFailure<T>(
+    error: unknown,
+    method: HttpMethod,
+    endpoint: string,
+    attempts: number,
+    timeoutMs: number,
+  ): AxiosResponse<T> {
+    if (axios.isAxiosError(error) && error.config) {
+      error.config.attempts = attempts;
+    }
+
+    // If the error is an Axios error, we can return the response directly
+    if (axios.isAxiosError(error) && error.response) {
+      ApiErrorHandler.captureApiError(
         error,
-        'sendRequest',
-        `Failed to send ${method.toUpperCase()} request to ${endpoint}`,
+        `${method.toUpperCase()} Request`,
+        `Failed to send ${method.toUpperCase()} request to ${endpoint} after ${attempts} attempt(s)`,
+      );
+      return error.response; // Return the error response
+    }
+
+    if (this.isTimeout(error)) {
+      const message = `${method.toUpperCase()} request to ${endpoint} timed out after ${timeoutMs}ms (${attempts} attempt(s))`;
+      ErrorHandler.captureError(error, 'sendRequest', message);
+      throw new AppError(
+        ErrorCategory.TIMEOUT,
+        { method: method.toUpperCase(), endpoint, timeoutMs, attempts },
+        message,
       );
-      throw error;
     }
+
+    // For other errors, handle them normally
+    ErrorHandler.captureError(
+      error,
+      'sendRequest',
+      `Failed to send ${method.toUpperCase()} request to ${endpoint} after ${attempts} attempt(s)`,
+    );
+    throw error;
+  }
+
+  /**
+   * Determines whether an error is an axios request timeout (no response received in time).
+   */
+  private isTimeout(error: unknown): boolean {
+    return (
+      axios.isAxiosError(error) &&
+      !error.response &&
+      (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT')
+    );
   }
 
   /**
@@ -96,50 +348,58 @@ export class ApiClient {
    * @template T - The expected response type.
    * @param endpoint - The URL endpoint to which the request is sent.
    * @param payload - The optional payload for the request body (ignored for GET/DELETE).
-   * @param authorizationHeader - Optional Authorization header value.
+   * @param authorizationHeader - Optional cookie token, `Bearer ` value, header object or AuthStrategy.
+   * @param options - Optional per-request overrides, e.g. `{ timeoutMs: 5000 }`, `{ rawBody: '{' }`
+   * or `{ expectation: RequestExpectation.positive('createBooking', 200) }`.
    * @returns A promise that resolves with the Axios response.
    * @throws Will throw an error if an unexpected error occurs.
    */
   async sendPostRequest<T>(
     endpoint: string,
     payload?: object,
-    authorizationHeader?: string,
+    authorizationHeader?: RequestAuthorization,
+    options?: RequestOptions,
   ): Promise<AxiosResponse<T>> {
-    const headers = this.createHeaders(authorizationHeader);
-    return this.sendRequest<T>('post', endpoint, payload, headers);
+    return this.sendAuthorizedRequest<T>('post', endpoint, payload, authorizationHeader, options);
   }
 
   async sendPutRequest<T>(
     endpoint: string,
     payload?: object,
-    authorizationHeader?: string | { [key: string]: string },
+    authorizationHeader?: RequestAuthorization,
+    options?: RequestOptions,
   ): Promise<AxiosResponse<T>> {
-    const headers = this.createHeaders(authorizationHeader);
-    return this.sendRequest<T>('put', endpoint, payload, headers);
+    return this.sendAuthorizedRequest<T>('put', endpoint, payload, authorizationHeader, options);
   }
 
   async sendPatchRequest<T>(
     endpoint: string,
     payload?: object,
-    authorizationHeader?: string | { [key: string]: string },
+    authorizationHeader?: RequestAuthorization,
+    options?: RequestOptions,
   ): Promise<AxiosResponse<T>> {
-    const headers = this.createHeaders(authorizationHeader);
-    return this.sendRequest<T>('patch', endpoint, payload, headers);
+    return this.sendAuthorizedRequest<T>('patch', endpoint, payload, authorizationHeader, options);
   }
 
   async sendGetRequest<T>(
     endpoint: string,
-    authorizationHeader?: string,
+    authorizationHeader?: RequestAuthorization,
+    options?: RequestOptions,
   ): Promise<AxiosResponse<T>> {
-    const headers = this.createHeaders(authorizationHeader);
-    return this.sendRequest<T>('get', endpoint, undefined, headers);
+    return this.sendAuthorizedRequest<T>('get', endpoint, undefined, authorizationHeader, options);
   }
 
   async sendDeleteRequest<T>(
     endpoint: string,
-    authorizationHeader?: string | { [key: string]: string },
+    authorizationHeader?: RequestAuthorization,
+    options?: RequestOptions,
   ): Promise<AxiosResponse<T>> {
-    const headers = this.createHeaders(authorizationHeader);
-    return this.sendRequest<T>('delete', endpoint, undefined, headers);
+    return this.sendAuthorizedRequest<T>(
+      'delete',
+      endpoint,
+      undefined,
+      authorizationHeader,
+      options,
+    );
   }
 }
@@ -0,0 +1,90 @@
+import axios from 'axios';
+import {
+  DEFAULT_RETRY_POLICY,
+  HttpMethod,
+  RetryPolicy,
+} from '../../models/api/apiClient.interface';
+
+export class ApiRetryPolicy {
+  private readonly policy: RetryPolicy;
+
+  /**
+   * Creates a retry policy, filling any omitted settings from DEFAULT_RETRY_POLICY.
+   * @param policy - Partial retry settings to override the defaults with
+   */
+  constructor(policy: Partial<RetryPolicy> = {}) {
+    this.policy = { ...DEFAULT_RETRY_POLICY, ...policy };
+  }
+
+  public get maxAttempts(): number {
+    return Math.max(1, this.policy.maxAttempts);
+  }
+
+  /**
+   * Determines whether a failed attempt should be retried.
+   *
+   * @param method - The HTTP method of the request
+   * @param error - The error thrown by the attempt
+   * @param attempt - The 1-based number of the attempt that failed
+   * @returns True if another attempt should be made
+   */
+  public shouldRetry(method: HttpMethod, error: unknown, attempt: number): boolean {
+    if (attempt >= this.maxAttempts || !this.policy.retryableMethods.includes(method)) {
+      return false;
+    }
+
+    if (!axios.isAxiosError(error)) {
+      return false;
+    }
+
+    if (error.response) {
+      return this.policy.retryableStatusCodes.includes(error.response.status);
+    }
+
+    return !!error.code && this.policy.retryableErrorCodes.includes(error.code);
+  }
+
+  /**
+   * Calculates the exponential backoff delay before the next attempt, with jitter.
+   * A Retry-After header on the failed response is honoured up to maxDelayMs.
+   *
+   * @param attempt - The 1-based number of the attempt that failed
+   * @param error - The error thrown by the attempt
+   * @returns The delay in milliseconds
+   */
+  public getDelay(attempt: number, error?: unknown): number {
+    const exponential = this.policy.baseDelayMs * 2 ** (attempt - 1);
+    const capped = Math.min(exponential, this.policy.maxDelayMs);
+    const jitter = Math.min(Math.max(this.policy.jitterRatio, 0), 1);
+    const delay = capped * (1 - jitter) + Math.random() * capped * jitter;
+
+    const retryAfterMs = this.getRetryAfterMs(error);
+    return Math.round(Math.min(Math.max(delay, retryAfterMs), this.policy.maxDelayMs));
+  }
+
+  /**
+   * Describes why an attempt failed, for logging.
+   */
+  public describeFailure(error: unknown): string {
+    if (axios.isAxiosError(error)) {
+      return error.response ? `status ${error.response.status}` : `error ${error.code}`;
+    }
+    return error instanceof Error ? error.message : String(error);
+  }
+
+  /**
+   * Waits for the given number of milliseconds.
+   */
+  public static wait(delayMs: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, delayMs));
+  }
+
+  private getRetryAfterMs(error: unknown): number {
+    if (!axios.isAxiosError(error)) {
+      return 0;
+    }
+
+    const retryAfter = Number(error.response?.headers?.['retry-after']);
+    return Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter * 1000 : 0;
+  }
+}
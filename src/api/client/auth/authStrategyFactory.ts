@@ -0,0 +1,38 @@
+import { BasicAuthStrategy } from './basicAuthStrategy';
+import { BearerTokenAuthStrategy } from './bearerTokenAuthStrategy';
+import { CookieTokenAuthStrategy } from './cookieTokenAuthStrategy';
+import {
+  AuthStrategy,
+  AuthStrategyName,
+  CredentialsSource,
+} from '../../../models/api/authStrategy.interface';
+import ErrorHandler from '../../../utils/errors/errorHandler';
+import { TokenManager } from '../../services/tokenManager';
+
+/**
+ * Creates auth strategies by name, sharing one TokenManager and one credentials source.
+ */
+export class AuthStrategyFactory {
+  constructor(
+    private readonly tokenManager: TokenManager,
+    private readonly credentialsSource: CredentialsSource,
+  ) {}
+
+  /**
+   * @param name - The strategy to create
+   * @returns A strategy that can be passed as the authorization of any ApiClient request
+   * @throws Will throw an error if the strategy is unknown.
+   */
+  public create(name: AuthStrategyName): AuthStrategy {
+    switch (name) {
+      case 'cookie':
+        return new CookieTokenAuthStrategy(this.tokenManager);
+      case 'basic':
+        return new BasicAuthStrategy(this.credentialsSource);
+      case 'bearer':
+        return new BearerTokenAuthStrategy(this.tokenManager);
+      default:
+        return ErrorHandler.logAndThrow(`Unknown auth strategy '${String(name)}'`, 'create');
+    }
+  }
+}
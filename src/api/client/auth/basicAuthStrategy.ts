@@ -0,0 +1,17 @@
+import { AuthStrategy, CredentialsSource } from '../../../models/api/authStrategy.interface';
+
+/**
+ * Sends the environment's credentials as an `Authorization: Basic` header.
+ * Credentials cannot be refreshed, so a rejection is final.
+ */
+export class BasicAuthStrategy implements AuthStrategy {
+  public readonly name = 'basic';
+
+  constructor(private readonly credentialsSource: CredentialsSource) {}
+
+  public async getHeaders(): Promise<{ [key: string]: string }> {
+    const { username, password } = await this.credentialsSource.getTokenCredentials();
+    const encoded = Buffer.from(`${username}:${password}`, 'utf8').toString('base64');
+    return { Authorization: `Basic ${encoded}` };
+  }
+}
@@ -0,0 +1,28 @@
+import { AuthStrategy } from '../../../models/api/authStrategy.interface';
+import { TokenManager } from '../../services/tokenManager';
+
+/**
+ * Sends the token issued by POST /auth as an `Authorization: Bearer` header.
+ * A rejected token is refreshed through the TokenManager, but only if it is stale or has
+ * changed since; Restful Booker also rejects fresh bearer tokens on PUT, PATCH and DELETE.
+ */
+export class BearerTokenAuthStrategy implements AuthStrategy {
+  public readonly name = 'bearer';
+
+  private static readonly PREFIX = 'Bearer ';
+
+  constructor(private readonly tokenManager: TokenManager) {}
+
+  public async getHeaders(): Promise<{ [key: string]: string }> {
+    return {
+      Authorization: `${BearerTokenAuthStrategy.PREFIX}${await this.tokenManager.getToken()}`,
+    };
+  }
+
+  public async refresh(rejectedHeaders: { [key: string]: string }): Promise<boolean> {
+    const rejectedToken = (rejectedHeaders['Authorization'] ?? '').slice(
+      BearerTokenAuthStrategy.PREFIX.length,
+    );
+    return this.tokenManager.refreshRejectedToken(rejectedToken);
+  }
+}
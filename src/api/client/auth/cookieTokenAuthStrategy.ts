@@ -0,0 +1,21 @@
+import { AuthStrategy } from '../../../models/api/authStrategy.interface';
+import { TokenManager } from '../../services/tokenManager';
+
+/**
+ * Sends the token issued by POST /auth as a `token` cookie, the way Restful Booker documents it.
+ * A rejected token is refreshed through the TokenManager.
+ */
+export class CookieTokenAuthStrategy implements AuthStrategy {
+  public readonly name = 'cookie';
+
+  constructor(private readonly tokenManager: TokenManager) {}
+
+  public async getHeaders(): Promise<{ [key: string]: string }> {
+    return { Cookie: `token=${await this.tokenManager.getToken()}` };
+  }
+
+  public async refresh(): Promise<boolean> {
+    await this.tokenManager.refreshToken();
+    return true;
+  }
+}
@@ -0,0 +1,137 @@
+import { AxiosResponse } from 'axios';
+import { ApiInterceptor, ApiRequestContext } from '../../../models/api/apiInterceptor.interface';
+import ErrorHandler from '../../../utils/errors/errorHandler';
+import logger from '../../../utils/logging/loggerManager';
+
+export class ApiInterceptorChain {
+  private readonly interceptors: ApiInterceptor[] = [];
+
+  /**
+   * Combines several chains into one. On equal `order`, interceptors from earlier chains run first.
+   *
+   * @param chains - The chains to combine, e.g. the global chain followed by a client's own chain
+   * @returns A new chain containing every interceptor
+   */
+  public static merge(...chains: ApiInterceptorChain[]): ApiInterceptorChain {
+    const merged = new ApiInterceptorChain();
+    // Merged per request, so the interceptors are not logged as registered again
+    chains.forEach((chain) =>
+      chain.interceptors.forEach((interceptor) => merged.replace(interceptor)),
+    );
+    return merged;
+  }
+
+  /**
+   * Registers an interceptor, replacing any interceptor with the same name.
+   */
+  public add(interceptor: ApiInterceptor): void {
+    this.replace(interceptor);
+    logger.debug(`Registered API interceptor '${interceptor.name}'`);
+  }
+
+  /**
+   * Removes the interceptor with the given name.
+   * @returns True if an interceptor was removed
+   */
+  public remove(name: string): boolean {
+    const index = this.interceptors.findIndex((interceptor) => interceptor.name === name);
+    if (index === -1) {
+      return false;
+    }
+    this.interceptors.splice(index, 1);
+    return true;
+  }
+
+  public has(name: string): boolean {
+    return this.interceptors.some((interceptor) => interceptor.name === name);
+  }
+
+  public clear(): void {
+    this.interceptors.length = 0;
+  }
+
+  /**
+   * Runs every request hook in ascending order.
+   *
+   * @param request - The request context, mutated in place by the hooks
+   * @throws Will rethrow the first error raised by a hook.
+   */
+  public async runRequestHooks(request: ApiRequestContext): Promise<void> {
+    for (const interceptor of this.sorted()) {
+      if (!interceptor.onRequest) continue;
+
+      try {
+        await interceptor.onRequest(request);
+      } catch (error) {
+        ErrorHandler.captureError(
+          error,
+          'runRequestHooks',
+          `API interceptor '${interceptor.name}' failed on request`,
+        );
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Runs every response hook in descending order.
+   *
+   * @param response - The final response, mutated in place by the hooks
+   * @param request - The request context the response belongs to
+   * @throws Will rethrow the first error raised by a hook.
+   */
+  public async runResponseHooks(
+    response: AxiosResponse,
+    request: ApiRequestContext,
+  ): Promise<void> {
+    for (const interceptor of this.sorted().reverse()) {
+      if (!interceptor.onResponse) continue;
+
+      try {
+        await interceptor.onResponse(response, request);
+      } catch (error) {
+        ErrorHandler.captureError(
+          error,
+          'runResponseHooks',
+          `API interceptor '${interceptor.name}' failed on response`,
+        );
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Runs every error hook in descending order. A failing hook is logged and skipped,
+   * so the original request error is never masked.
+   *
+   * @param error - The error the request failed with
+   * @param request - The request context the error belongs to
+   */
+  public async runErrorHooks(error: unknown, request: ApiRequestContext): Promise<void> {
+    for (const interceptor of this.sorted().reverse()) {
+      if (!interceptor.onError) continue;
+
+      try {
+        await interceptor.onError(error, request);
+      } catch (hookError) {
+        ErrorHandler.captureError(
+          hookError,
+          'runErrorHooks',
+          `API interceptor '${interceptor.name}' failed on error`,
+        );
+      }
+    }
+  }
+
+  private replace(interceptor: ApiInterceptor): void {
+    this.remove(interceptor.name);
+    this.interceptors.push(interceptor);
+  }
+
+  /**
+   * Returns the interceptors sorted by order; Array.prototype.sort is stable, so ties keep registration order.
+   */
+  private sorted(): ApiInterceptor[] {
+    return [...this.interceptors].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  }
+}
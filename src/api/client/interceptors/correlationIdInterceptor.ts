@@ -0,0 +1,23 @@
+import crypto from 'crypto';
+import {
+  API_INTERCEPTOR_PARAMS,
+  ApiInterceptor,
+  ApiRequestContext,
+} from '../../../models/api/apiInterceptor.interface';
+
+/**
+ * Tags every request with a correlation ID header so a single exchange can be traced
+ * across retries, logs and server-side records. An ID already present on the request is kept.
+ */
+export class CorrelationIdInterceptor implements ApiInterceptor {
+  public readonly name = 'correlation-id';
+  public readonly order = -100;
+
+  constructor(private readonly headerName: string = API_INTERCEPTOR_PARAMS.CORRELATION_ID_HEADER) {}
+
+  public onRequest(request: ApiRequestContext): void {
+    const correlationId = request.headers[this.headerName] || crypto.randomUUID();
+    request.headers[this.headerName] = correlationId;
+    request.metadata.correlationId = correlationId;
+  }
+}
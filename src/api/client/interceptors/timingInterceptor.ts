@@ -0,0 +1,41 @@
+import { AxiosResponse } from 'axios';
+import {
+  API_INTERCEPTOR_PARAMS,
+  ApiInterceptor,
+  ApiRequestContext,
+} from '../../../models/api/apiInterceptor.interface';
+import logger from '../../../utils/logging/loggerManager';
+
+/**
+ * Measures how long each request takes, including retries, and stores it as
+ * `durationMs` in the request metadata. Requests slower than the threshold are logged as warnings.
+ */
+export class TimingInterceptor implements ApiInterceptor {
+  public readonly name = 'timing';
+  public readonly order = -50;
+
+  constructor(
+    private readonly slowRequestThresholdMs: number = API_INTERCEPTOR_PARAMS.SLOW_REQUEST_THRESHOLD_MS,
+  ) {}
+
+  public onRequest(request: ApiRequestContext): void {
+    request.metadata.startedAt = performance.now();
+  }
+
+  public onResponse(response: AxiosResponse, request: ApiRequestContext): void {
+    const startedAt = request.metadata.startedAt;
+    if (typeof startedAt !== 'number') {
+      return;
+    }
+
+    const durationMs = Math.round(performance.now() - startedAt);
+    request.metadata.durationMs = durationMs;
+
+    const summary = `${request.method.toUpperCase()} ${request.endpoint} -> ${response.status} in ${durationMs}ms`;
+    if (durationMs > this.slowRequestThresholdMs) {
+      logger.warn(`Slow request: ${summary}`);
+    } else {
+      logger.debug(summary);
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { TestInfo } from '@playwright/test';
+import axios, { AxiosResponse } from 'axios';
+import { ApiInterceptor, ApiRequestContext } from '../../../models/api/apiInterceptor.interface';
+import {
+  HarEntry,
+  HarLog,
+  HarNameValue,
+  RecordedExchange,
+  TrafficAttachmentPolicy,
+  TRAFFIC_RECORDER_PARAMS,
+} from '../../../models/api/trafficRecording.interface';
+import ErrorHandler from '../../../utils/errors/errorHandler';
+import SanitizationConfig from '../../../utils/sanitization/sanitizationConfig';
+import Clock from '../../../utils/time/clock';
+
+/**
+ * Records every ApiClient exchange (method, URL, headers, body, status, duration),
+ * sanitised with SanitizationConfig, and attaches it to the Playwright report as a HAR file.
+ */
+export class TrafficRecorderInterceptor implements ApiInterceptor {
+  public readonly name = 'traffic-recorder';
+
+  // Runs last on the way out so the recorded headers are final, and first on the way back
+  public readonly order = 1_000;
+
+  private readonly exchanges: RecordedExchange[] = [];
+
+  private readonly recordedAt = Clock.now();
+
+  private testDataSeed?: number;
+
+  public onRequest(request: ApiRequestContext): void {
+    request.metadata.recordingStartedAt = Date.now();
+  }
+
+  public onResponse(response: AxiosResponse, request: ApiRequestContext): void {
+    this.record(request, response);
+  }
+
+  public onError(error: unknown, request: ApiRequestContext): void {
+    const response = axios.isAxiosError(error) ? error.response : undefined;
+    this.record(request, response, error instanceof Error ? error.message : String(error));
+  }
+
+  /**
+   * Gets a copy of the exchanges recorded so far, in the order they completed.
+   */
+  public getExchanges(): RecordedExchange[] {
+    return [...this.exchanges];
+  }
+
+  public clear(): void {
+    this.exchanges.length = 0;
+  }
+
+  /**
+   * Stores the seed of the test's generated data with the recording.
+   */
+  public setTestDataSeed(seed: number): void {
+    this.testDataSeed = seed;
+  }
+
+  /**
+   * Converts the recorded exchanges into a HAR 1.2 log.
+   */
+  public toHar(): HarLog {
+    return {
+      log: {
+        version: TRAFFIC_RECORDER_PARAMS.HAR_VERSION,
+        creator: TRAFFIC_RECORDER_PARAMS.HAR_CREATOR,
+        entries: this.exchanges.map((exchange) => this.toHarEntry(exchange)),
+        _recordedAt: this.recordedAt.toISOString(),
+        _testDataSeed: this.testDataSeed,
+      },
+    };
+  }
+
+  /**
+   * Attaches the recording to the test as a HAR file, according to the attachment policy.
+   * Nothing is attached when the test did not send any request.
+   *
+   * @param testInfo - The TestInfo of the test the traffic belongs to
+   * @param policy - When to attach, defaults to API_TRAFFIC_ATTACHMENT
+   * @throws Will throw an error if the attachment cannot be written.
+   */
+  public async attachTo(
+    testInfo: TestInfo,
+    policy: TrafficAttachmentPolicy = TRAFFIC_RECORDER_PARAMS.ATTACHMENT_POLICY,
+  ): Promise<void> {
+    const failed = testInfo.status !== testInfo.expectedStatus;
+    if (this.exchanges.length === 0 || policy === 'never' || (policy === 'on-failure' && !failed)) {
+      return;
+    }
+
+    try {
+      await testInfo.attach(TRAFFIC_RECORDER_PARAMS.ATTACHMENT_NAME, {
+        body: JSON.stringify(this.toHar(), null, 2),
+        contentType: 'application/json',
+      });
+    } catch (error) {
+      ErrorHandler.captureError(error, 'attachTo', 'Failed to attach recorded API traffic');
+      throw error;
+    }
+  }
+
+  private record(request: ApiRequestContext, response?: AxiosResponse, error?: string): void {
+    const startedAt =
+      typeof request.metadata.recordingStartedAt === 'number'
+        ? request.metadata.recordingStartedAt
+        : Date.now();
+    const correlationId = request.metadata.correlationId;
+
+    this.exchanges.push({
+      startedDateTime: new Date(startedAt).toISOString(),
+      durationMs: Date.now() - startedAt,
+      attempts: response?.config?.attempts,
+      correlationId: typeof correlationId === 'string' ? correlationId : undefined,
+      request: {
+        method: request.method.toUpperCase(),
+        url: this.resolveUrl(request),
+        headers: SanitizationConfig.sanitizeHeaders(request.headers),
+        body: SanitizationConfig.sanitizeData(request.payload),
+      },
+      response: response && {
+        status: response.status,
+        statusText: response.statusText,
+        headers: SanitizationConfig.sanitizeHeaders({ ...response.headers }),
+        body: SanitizationConfig.sanitizeData(response.data),
+      },
+      error,
+    });
+  }
+
+  private toHarEntry(exchange: RecordedExchange): HarEntry {
+    const requestText = this.toText(exchange.request.body);
+    const responseText = this.toText(exchange.response?.body);
+    const responseHeaders = exchange.response?.headers ?? {};
+
+    return {
+      startedDateTime: exchange.startedDateTime,
+      time: exchange.durationMs,
+      request: {
+        method: exchange.request.method,
+        url: exchange.request.url,
+        httpVersion: 'HTTP/1.1',
+        headers: this.toNameValues(exchange.request.headers),
+        queryString: this.toQueryString(exchange.request.url),
+        ...(requestText !== undefined && {
+          postData: {
+            mimeType: String(exchange.request.headers['Content-Type'] ?? 'application/json'),
+            text: requestText,
+          },
+        }),
+        headersSize: -1,
+        bodySize: requestText !== undefined ? Buffer.byteLength(requestText) : 0,
+      },
+      // Failed requests have no response; HAR represents them with status 0
+      response: {
+        status: exchange.response?.status ?? 0,
+        statusText: exchange.response?.statusText ?? '',
+        httpVersion: 'HTTP/1.1',
+        headers: this.toNameValues(responseHeaders),
+        content: {
+          size: responseText !== undefined ? Buffer.byteLength(responseText) : 0,
+          mimeType: String(responseHeaders['content-type'] ?? 'application/octet-stream'),
+          text: responseText,
+        },
+        redirectURL: '',
+        headersSize: -1,
+        bodySize: -1,
+      },
+      cache: {},
+      timings: { send: 0, wait: exchange.durationMs, receive: 0 },
+      _attempts: exchange.attempts,
+      _correlationId: exchange.correlationId,
+      _error: exchange.error,
+    };
+  }
+
+  private resolveUrl(request: ApiRequestContext): string {
+    try {
+      return new URL(request.endpoint, request.baseUrl).toString();
+    } catch {
+      return request.endpoint;
+    }
+  }
+
+  private toText(body: unknown): string | undefined {
+    if (body === undefined || body === null || body === '') {
+      return undefined;
+    }
+    return typeof body === 'string' ? body : JSON.stringify(body);
+  }
+
+  private toNameValues(values: Record<string, unknown>): HarNameValue[] {
+    return Object.entries(values)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([name, value]) => ({ name, value: String(value) }));
+  }
+
+  private toQueryString(url: string): HarNameValue[] {
+    try {
+      return Array.from(new URL(url).searchParams, ([name, value]) => ({ name, value }));
+    } catch {
+      return [];
+    }
+  }
+}
@@ -0,0 +1,102 @@
+import { TestInfo } from '@playwright/test';
+import path from 'path';
+import { HarLog, HAR_RECORDING_PARAMS } from '../../../models/api/trafficRecording.interface';
+import { ErrorCategory } from '../../../models/utils/errorCategory.enum';
+import { AppError } from '../../../utils/errors/AppError';
+import ErrorHandler from '../../../utils/errors/errorHandler';
+import AsyncFileManager from '../../../utils/fileManagers/asyncFileManager';
+import logger from '../../../utils/logging/loggerManager';
+
+export class HarRecordingStore {
+  /**
+   * Resolves the HAR file of a test: `<recordings>/<spec path>/<test title slug>.har`.
+   * The title slug includes the describe blocks, so equally named tests in different suites do not collide.
+   *
+   * @param testInfo - The TestInfo of the test
+   * @returns The absolute path of the test's HAR file
+   */
+  public static getRecordingPath(testInfo: TestInfo): string {
+    const specPath = path
+      .relative(testInfo.project.testDir, testInfo.file)
+      .replace(/\.(spec|test)\.[cm]?[jt]s$/, '');
+    const testSlug = this.slugify(testInfo.titlePath.slice(1).join(' '));
+
+    return path.resolve(
+      HAR_RECORDING_PARAMS.DIRECTORY,
+      specPath,
+      `${testSlug}${HAR_RECORDING_PARAMS.FILE_EXTENSION}`,
+    );
+  }
+
+  /**
+   * Saves a test's recorded traffic, replacing any previous recording.
+   *
+   * @param testInfo - The TestInfo of the test the traffic belongs to
+   * @param har - The recorded traffic
+   * @throws Will throw an error if the file cannot be written.
+   */
+  public static async save(testInfo: TestInfo, har: HarLog): Promise<void> {
+    const filePath = this.getRecordingPath(testInfo);
+
+    try {
+      await AsyncFileManager.writeFile(filePath, JSON.stringify(har, null, 2), 'HAR recording');
+      logger.info(
+        `Recorded ${har.log.entries.length} exchange(s) to ${AsyncFileManager.getRelativePath(filePath)}`,
+      );
+    } catch (error) {
+      ErrorHandler.captureError(error, 'save', `Failed to save HAR recording to ${filePath}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Loads a test's recorded traffic.
+   *
+   * @param testInfo - The TestInfo of the test to load the recording for
+   * @returns The recorded traffic
+   * @throws AppError with ErrorCategory.FILE_NOT_FOUND if the test has not been recorded.
+   * @throws AppError with ErrorCategory.PARSING if the file is not a HAR log.
+   */
+  public static async load(testInfo: TestInfo): Promise<HarLog> {
+    const filePath = this.getRecordingPath(testInfo);
+    const relativePath = AsyncFileManager.getRelativePath(filePath);
+
+    if (!(await AsyncFileManager.doesFileExist(filePath))) {
+      throw new AppError(
+        ErrorCategory.FILE_NOT_FOUND,
+        { filePath: relativePath },
+        `No HAR recording found at ${relativePath}. Run the test with API_TRAFFIC_MODE=record first.`,
+      );
+    }
+
+    const content = await AsyncFileManager.readFile(filePath);
+
+    let har: HarLog;
+    try {
+      har = JSON.parse(content) as HarLog;
+    } catch (error) {
+      throw new AppError(
+        ErrorCategory.PARSING,
+        { filePath: relativePath, reason: error instanceof Error ? error.message : String(error) },
+        `HAR recording at ${relativePath} is not valid JSON`,
+      );
+    }
+
+    if (!Array.isArray(har?.log?.entries)) {
+      throw new AppError(
+        ErrorCategory.PARSING,
+        { filePath: relativePath },
+        `HAR recording at ${relativePath} has no log.entries`,
+      );
+    }
+
+    return har;
+  }
+
+  private static slugify(value: string): string {
+    return value
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '');
+  }
+}
@@ -0,0 +1,165 @@
+import {
+  AxiosAdapter,
+  AxiosError,
+  AxiosHeaders,
+  AxiosResponse,
+  InternalAxiosRequestConfig,
+} from 'axios';
+import {
+  HarEntry,
+  HarLog,
+  HAR_RECORDING_PARAMS,
+} from '../../../models/api/trafficRecording.interface';
+import { ErrorCategory } from '../../../models/utils/errorCategory.enum';
+import { AppError } from '../../../utils/errors/AppError';
+import logger from '../../../utils/logging/loggerManager';
+import SanitizationConfig from '../../../utils/sanitization/sanitizationConfig';
+
+/**
+ * axios adapter that answers requests from a recorded HAR log instead of the network.
+ *
+ * Requests are matched on method, path (including the sorted query string) and body.
+ * Bodies are compared after sanitisation and key sorting, which is exactly how they were recorded.
+ * Entries are consumed in recording order, so repeated requests (e.g. GET before and after an update)
+ * get their respective answers. If no unused entry matches exactly, the first unused entry with the
+ * same method and path is used and a warning is logged.
+ */
+export class HarReplayAdapter {
+  private readonly usedEntries = new Set<HarEntry>();
+
+  constructor(
+    private readonly har: HarLog,
+    private readonly source: string = 'HAR recording',
+  ) {}
+
+  /**
+   * The adapter to pass to axios (or ApiClientOptions.adapter).
+   */
+  public readonly adapter: AxiosAdapter = (config) => this.replay(config);
+
+  /**
+   * Gets the time the recording started, if the HAR log carries it.
+   */
+  public getRecordedAt(): Date | null {
+    const recordedAt = this.har.log._recordedAt ?? this.har.log.entries[0]?.startedDateTime;
+    return recordedAt ? new Date(recordedAt) : null;
+  }
+
+  /**
+   * Gets the seed the recorded test generated its data with, if the HAR log carries it.
+   */
+  public getTestDataSeed(): number | null {
+    return this.har.log._testDataSeed ?? null;
+  }
+
+  private async replay(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    const method = (config.method || 'get').toUpperCase();
+    const requestPath = this.toPath(config.url || '', config.baseURL);
+    const requestBody = this.normaliseBody(config.data);
+
+    const entry = this.findEntry(method, requestPath, requestBody);
+    this.usedEntries.add(entry);
+
+    if (!entry.response.status) {
+      // The recorded request failed without a response, e.g. a timeout
+      const message = entry._error || 'Recorded request failed without a response';
+      const code = /time(d)? ?out/i.test(message)
+        ? AxiosError.ECONNABORTED
+        : AxiosError.ERR_NETWORK;
+      throw new AxiosError(message, code, config);
+    }
+
+    const response: AxiosResponse = {
+      data: entry.response.content.text ?? '',
+      status: entry.response.status,
+      statusText: entry.response.statusText,
+      headers: AxiosHeaders.from(
+        Object.fromEntries(entry.response.headers.map(({ name, value }) => [name, value])),
+      ),
+      config,
+      request: { replayedFrom: this.source },
+    };
+
+    if (!config.validateStatus || config.validateStatus(response.status)) {
+      return response;
+    }
+
+    throw new AxiosError(
+      `Request failed with status code ${response.status}`,
+      response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+      config,
+      response.request,
+      response,
+    );
+  }
+
+  private findEntry(method: string, requestPath: string, requestBody: string): HarEntry {
+    const candidates = this.har.log.entries.filter(
+      (entry) =>
+        entry.request.method.toUpperCase() === method &&
+        this.toPath(entry.request.url) === requestPath,
+    );
+    const unused = candidates.filter((entry) => !this.usedEntries.has(entry));
+    const bodyMatches = (entry: HarEntry) =>
+      this.normaliseBody(entry.request.postData?.text) === requestBody;
+
+    const exact = unused.find(bodyMatches);
+    if (exact) {
+      return exact;
+    }
+
+    const fallback = unused[0] ?? candidates.filter(bodyMatches).at(-1) ?? candidates.at(-1);
+    if (fallback) {
+      logger.warn(
+        `No unused recorded exchange matches the body of ${method} ${requestPath} in ${this.source}; ` +
+          `replaying the closest recorded ${method} ${requestPath} instead`,
+      );
+      return fallback;
+    }
+
+    throw new AppError(
+      ErrorCategory.NOT_FOUND,
+      { method, path: requestPath, source: this.source },
+      `No recorded exchange for ${method} ${requestPath} in ${this.source}`,
+    );
+  }
+
+  private toPath(url: string, baseUrl?: string): string {
+    const parsed = new URL(url, baseUrl || HAR_RECORDING_PARAMS.REPLAY_BASE_URL);
+    parsed.searchParams.sort();
+    return `${parsed.pathname}${parsed.search}`;
+  }
+
+  private normaliseBody(body: unknown): string {
+    if (body === undefined || body === null || body === '') {
+      return '';
+    }
+
+    let parsed: unknown = body;
+    if (typeof body === 'string') {
+      try {
+        parsed = JSON.parse(body);
+      } catch {
+        return body;
+      }
+    }
+
+    return JSON.stringify(this.sortKeys(SanitizationConfig.sanitizeData(parsed)));
+  }
+
+  private sortKeys(value: unknown): unknown {
+    if (Array.isArray(value)) {
+      return value.map((item) => this.sortKeys(item));
+    }
+
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.keys(value)
+          .sort()
+          .map((key) => [key, this.sortKeys((value as Record<string, unknown>)[key])]),
+      );
+    }
+
+    return value;
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  ExpectedOutcome,
+  REQUEST_EXPECTATION_PARAMS,
+  RequestExpectationOptions,
+  ResponseBodyMatcher,
+} from '../../models/api/requestExpectation.interface';
+
+/**
+ * The ExpectedOutcome of a single request. It is passed to ApiClient with the request,
+ * travels on the axios config of the response (or error), and is what ApiResponseValidator,
+ * ErrorHandler and ApiErrorResponseBuilder check the outcome against.
+ */
+export class RequestExpectation implements ExpectedOutcome {
+  public readonly body: readonly ResponseBodyMatcher[];
+  public readonly maxLatencyMs?: number;
+
+  /**
+   * @param context - Names the request in logs and error reports
+   * @param expectedStatuses - Status codes the request may answer with
+   * @param isNegative - Whether the request is expected to be rejected
+   * @param options - Body matchers and latency budget
+   */
+  private constructor(
+    public readonly context: string,
+    public readonly expectedStatuses: readonly number[],
+    public readonly isNegative: boolean,
+    options: RequestExpectationOptions,
+  ) {
+    this.body = options.body ?? [];
+    this.maxLatencyMs = options.maxLatencyMs ?? REQUEST_EXPECTATION_PARAMS.MAX_LATENCY_MS;
+  }
+
+  /**
+   * Expects the request to succeed with the given status code.
+   */
+  public static positive(
+    context: string,
+    expectedStatus: number,
+    options: RequestExpectationOptions = {},
+  ): RequestExpectation {
+    return new RequestExpectation(context, [expectedStatus], false, options);
+  }
+
+  /**
+   * Expects the request to be rejected with one of the given status codes.
+   */
+  public static negative(
+    context: string,
+    expectedStatuses: number[],
+    options: RequestExpectationOptions = {},
+  ): RequestExpectation {
+    return new RequestExpectation(context, [...expectedStatuses], true, options);
+  }
+
+  public isExpectedStatus(statusCode: number): boolean {
+    return this.expectedStatuses.includes(statusCode);
+  }
+
+  /**
+   * @returns True if this is a negative expectation and the status is one it expects
+   */
+  public isExpectedRejection(statusCode: number): boolean {
+    return this.isNegative && this.isExpectedStatus(statusCode);
+  }
+
+  /**
+   * @returns The descriptions of the body matchers the body fails
+   */
+  public findBodyMismatches(body: unknown): string[] {
+    return this.body.filter(({ matches }) => !matches(body)).map(({ description }) => description);
+  }
+
+  public exceedsLatency(durationMs: number): boolean {
+    return this.maxLatencyMs !== undefined && durationMs > this.maxLatencyMs;
+  }
+
+  /**
+   * Describes the expected statuses, e.g. `201` or `400 or 404`.
+   */
+  public describeStatuses(): string {
+    return this.expectedStatuses.join(' or ');
+  }
+}
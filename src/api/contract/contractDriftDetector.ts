@@ -0,0 +1,388 @@
+import { AxiosResponse } from 'axios';
+import path from 'path';
+import ContractLoader from './contractLoader';
+import { ResourceRegistry } from '../cleanup/resourceRegistry';
+import { ApiClient } from '../client/apiClient';
+import { ApiBaseUrlBuilder } from '../endpoints/apiBaseUrlBuilder';
+import JsonSchemaValidator from '../validators/jsonSchemaValidator';
+import { RequestAuthorization } from '../../models/api/apiClient.interface';
+import {
+  CONTRACT_DRIFT_PARAMS,
+  ContractDriftReport,
+  DriftFinding,
+  DriftKind,
+  OperationDriftResult,
+} from '../../models/api/contractDrift.interface';
+import { SchemaKeyword } from '../../models/api/jsonSchema.interface';
+import {
+  CONTRACT_PARAMS,
+  OpenApiDocument,
+  OpenApiMethod,
+  OpenApiOperation,
+  OpenApiPathItem,
+  OpenApiResponse,
+  OpenApiSchema,
+} from '../../models/api/openApi.interface';
+import ErrorHandler from '../../utils/errors/errorHandler';
+import AsyncFileManager from '../../utils/fileManagers/asyncFileManager';
+import logger from '../../utils/logging/loggerManager';
+import Clock from '../../utils/time/clock';
+
+/**
+ * Walks every operation of the OpenAPI contract against the configured API (live or stand-in)
+ * and reports where the responses deviate from it: undocumented status codes, missing or
+ * undeclared fields and changed types.
+ *
+ * Operations are called in contract order. Path parameters come from the `links` of earlier
+ * responses, e.g. the booking created by POST /booking is read, updated and deleted.
+ * Request bodies are built from the schema examples. Created bookings are also tracked in the
+ * ResourceRegistry, so they are deleted even if the contract's delete operation is skipped or fails.
+ */
+export class ContractDriftDetector {
+  private static readonly METHODS: OpenApiMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+
+  private static readonly KIND_BY_KEYWORD: Partial<Record<SchemaKeyword, DriftKind>> = {
+    required: 'missing-field',
+    additionalProperties: 'extra-field',
+    type: 'type-change',
+  };
+
+  constructor(
+    private readonly apiClient: ApiClient,
+    private readonly apiBaseUrlBuilder: ApiBaseUrlBuilder,
+    private readonly authorization: RequestAuthorization,
+    private readonly resourceRegistry?: ResourceRegistry,
+    private readonly contractPath: string = CONTRACT_PARAMS.CONTRACT_PATH,
+  ) {}
+
+  /**
+   * Calls every operation of the contract and compares the responses with it.
+   *
+   * @returns The drift report; operations that match the contract have no findings
+   * @throws Will throw an error if the contract cannot be loaded or the base URL is not configured.
+   */
+  public async detect(): Promise<ContractDriftReport> {
+    try {
+      const contract = await ContractLoader.load(this.contractPath);
+      await this.apiBaseUrlBuilder.initializeIfNeeded();
+
+      // Path parameter values per operationId, collected from response links
+      const linkedParameters = new Map<string, Record<string, string>>();
+      const operations: OperationDriftResult[] = [];
+
+      for (const [operationPath, pathItem] of Object.entries(contract.paths)) {
+        for (const method of this.getMethods(pathItem)) {
+          operations.push(
+            await this.checkOperation(contract, operationPath, method, pathItem, linkedParameters),
+          );
+        }
+      }
+
+      const report: ContractDriftReport = {
+        contract: this.contractPath,
+        contractVersion: contract.info.version,
+        baseUrl: this.apiBaseUrlBuilder.getBaseUrl(),
+        checkedAt: Clock.now().toISOString(),
+        summary: {
+          operations: operations.length,
+          skipped: operations.filter((operation) => operation.skipped).length,
+          drifted: operations.filter((operation) => operation.findings.length > 0).length,
+          findings: operations.reduce((total, operation) => total + operation.findings.length, 0),
+        },
+        operations,
+      };
+
+      logger.info(
+        `Checked ${report.summary.operations} operation(s) against ${this.contractPath}: ` +
+          `${report.summary.drifted} drifted, ${report.summary.skipped} skipped`,
+      );
+      return report;
+    } catch (error) {
+      ErrorHandler.captureError(error, 'detect', `Failed to check ${this.contractPath} for drift`);
+      throw error;
+    }
+  }
+
+  /**
+   * Writes the report as JSON, replacing any previous report.
+   *
+   * @param report - The report returned by detect
+   * @param reportPath - Path of the report, relative to the working directory
+   * @returns The absolute path of the written report
+   * @throws Will throw an error if the file cannot be written.
+   */
+  public async saveReport(
+    report: ContractDriftReport,
+    reportPath: string = CONTRACT_DRIFT_PARAMS.REPORT_PATH,
+  ): Promise<string> {
+    const filePath = path.resolve(reportPath);
+
+    try {
+      await AsyncFileManager.writeFile(
+        filePath,
+        JSON.stringify(report, null, 2),
+        'contract drift report',
+      );
+      logger.info(`Contract drift report written to ${AsyncFileManager.getRelativePath(filePath)}`);
+      return filePath;
+    } catch (error) {
+      ErrorHandler.captureError(error, 'saveReport', `Failed to save drift report to ${filePath}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Describes every finding and skipped operation as one line, e.g.
+   * `GET /booking/{id} (getBooking) type-change totalprice: expected number, received string`.
+   *
+   * @returns An empty array if the API matches the contract
+   */
+  public static summarize(report: ContractDriftReport): string[] {
+    return report.operations.flatMap(({ operationId, method, path, skipped, findings }) => {
+      const operation = `${method} ${path} (${operationId})`;
+
+      if (skipped) {
+        return [`${operation} skipped: ${skipped}`];
+      }
+
+      return findings.map(
+        ({ kind, path: fieldPath, message }) =>
+          `${operation} ${kind}${fieldPath ? ` ${fieldPath}` : ''}: ${message}`,
+      );
+    });
+  }
+
+  private getMethods(pathItem: OpenApiPathItem): OpenApiMethod[] {
+    return Object.keys(pathItem).filter((key): key is OpenApiMethod =>
+      ContractDriftDetector.METHODS.includes(key as OpenApiMethod),
+    );
+  }
+
+  private async checkOperation(
+    contract: OpenApiDocument,
+    operationPath: string,
+    method: OpenApiMethod,
+    pathItem: OpenApiPathItem,
+    linkedParameters: Map<string, Record<string, string>>,
+  ): Promise<OperationDriftResult> {
+    const operation = pathItem[method] as OpenApiOperation;
+    const result: OperationDriftResult = {
+      operationId: operation.operationId,
+      method: method.toUpperCase(),
+      path: operationPath,
+      status: undefined,
+      documentedStatuses: Object.keys(operation.responses),
+      findings: [],
+    };
+
+    const parameterValues = linkedParameters.get(operation.operationId) ?? {};
+    const missingParameters = [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])]
+      .filter(
+        (parameter) => parameter.in === 'path' && parameterValues[parameter.name] === undefined,
+      )
+      .map((parameter) => parameter.name);
+
+    if (missingParameters.length > 0) {
+      const parameters = missingParameters.join(', ');
+      result.skipped = `no earlier response links a value for path parameter(s) ${parameters}`;
+      logger.warn(`Skipping ${result.method} ${operationPath}: ${result.skipped}`);
+      return result;
+    }
+
+    const endpoint = new URL(
+      operationPath.replace(/\{(\w+)\}/g, (_, name: string) =>
+        encodeURIComponent(parameterValues[name]),
+      ),
+      this.apiBaseUrlBuilder.getBaseUrl(),
+    ).toString();
+
+    let response: AxiosResponse<unknown>;
+    try {
+      response = await this.send(method, endpoint, this.buildRequestBody(contract, operation));
+    } catch (error) {
+      result.findings.push({
+        kind: 'request-failed',
+        message: error instanceof Error ? error.message : String(error),
+      });
+      return result;
+    }
+
+    result.status = response.status;
+    this.trackCreatedResource(method, operationPath, response);
+    const documentedResponse = operation.responses[String(response.status)];
+
+    if (!documentedResponse) {
+      result.findings.push({
+        kind: 'undocumented-status',
+        message:
+          `${response.status} is not documented, ` +
+          `expected one of ${result.documentedStatuses.join(', ')}`,
+      });
+      return result;
+    }
+
+    result.findings.push(...this.compareBody(contract, documentedResponse, response.data));
+    this.collectLinkedParameters(documentedResponse, response.data, linkedParameters);
+
+    return result;
+  }
+
+  private trackCreatedResource(
+    method: OpenApiMethod,
+    operationPath: string,
+    response: AxiosResponse<unknown>,
+  ): void {
+    const resourceType = CONTRACT_DRIFT_PARAMS.CREATED_RESOURCES[operationPath];
+    if (method === 'post' && resourceType && response.status >= 200 && response.status < 300) {
+      this.resourceRegistry?.trackCreated(resourceType, response.data);
+    }
+  }
+
+  private async send(
+    method: OpenApiMethod,
+    endpoint: string,
+    payload: object | undefined,
+  ): Promise<AxiosResponse<unknown>> {
+    switch (method) {
+      case 'get':
+        return this.apiClient.sendGetRequest(endpoint, this.authorization);
+      case 'post':
+        return this.apiClient.sendPostRequest(endpoint, payload, this.authorization);
+      case 'put':
+        return this.apiClient.sendPutRequest(endpoint, payload, this.authorization);
+      case 'patch':
+        return this.apiClient.sendPatchRequest(endpoint, payload, this.authorization);
+      case 'delete':
+        return this.apiClient.sendDeleteRequest(endpoint, this.authorization);
+    }
+  }
+
+  /**
+   * Compares the body with the documented schema. Undeclared properties are reported too,
+   * since a field the contract does not know about is exactly the drift we want to hear about.
+   */
+  private compareBody(
+    contract: OpenApiDocument,
+    documentedResponse: OpenApiResponse,
+    body: unknown,
+  ): DriftFinding[] {
+    const schema = documentedResponse.content?.[CONTRACT_DRIFT_PARAMS.JSON_MEDIA_TYPE]?.schema;
+    if (!schema) {
+      return [];
+    }
+
+    const violations = JsonSchemaValidator.validate(body, schema, {
+      resolveRef: (ref) => this.resolveSchema(contract, ref),
+      disallowUndeclaredProperties: true,
+    });
+
+    // A oneOf mismatch is followed by the violations of the closest alternative, which say more
+    return violations
+      .filter(({ keyword }) => keyword !== 'oneOf')
+      .map(({ keyword, path: fieldPath, message }) => ({
+        kind: ContractDriftDetector.KIND_BY_KEYWORD[keyword] ?? 'constraint-violation',
+        path: fieldPath,
+        message,
+      }));
+  }
+
+  private collectLinkedParameters(
+    documentedResponse: OpenApiResponse,
+    body: unknown,
+    linkedParameters: Map<string, Record<string, string>>,
+  ): void {
+    for (const link of Object.values(documentedResponse.links ?? {})) {
+      const values = linkedParameters.get(link.operationId) ?? {};
+
+      for (const [parameter, expression] of Object.entries(link.parameters ?? {})) {
+        const value = this.evaluateExpression(expression, body);
+        if (value !== undefined) {
+          values[parameter] = String(value);
+        }
+      }
+
+      linkedParameters.set(link.operationId, values);
+    }
+  }
+
+  /**
+   * Evaluates a `$response.body#/<JSON pointer>` runtime expression against a response body.
+   */
+  private evaluateExpression(expression: string, body: unknown): unknown {
+    if (!expression.startsWith(CONTRACT_DRIFT_PARAMS.RESPONSE_BODY_EXPRESSION)) {
+      logger.warn(`Unsupported link expression '${expression}', expected $response.body#/<path>`);
+      return undefined;
+    }
+
+    const pointer = expression.slice(CONTRACT_DRIFT_PARAMS.RESPONSE_BODY_EXPRESSION.length);
+    return pointer
+      .split('/')
+      .slice(1)
+      .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce<unknown>(
+        (value, token) =>
+          value !== null && typeof value === 'object'
+            ? (value as Record<string, unknown>)[token]
+            : undefined,
+        body,
+      );
+  }
+
+  private buildRequestBody(
+    contract: OpenApiDocument,
+    operation: OpenApiOperation,
+  ): object | undefined {
+    const schema = operation.requestBody?.content[CONTRACT_DRIFT_PARAMS.JSON_MEDIA_TYPE]?.schema;
+    return schema ? (this.buildExample(contract, schema) as object) : undefined;
+  }
+
+  /**
+   * Builds a value from the schema's examples, falling back to the smallest valid value.
+   */
+  private buildExample(contract: OpenApiDocument, schema: OpenApiSchema): unknown {
+    const resolved = schema.$ref ? this.resolveSchema(contract, schema.$ref) : schema;
+
+    if (resolved.example !== undefined) {
+      return resolved.example;
+    }
+    if (resolved.oneOf?.length) {
+      return this.buildExample(contract, resolved.oneOf[0]);
+    }
+
+    const type = Array.isArray(resolved.type) ? resolved.type[0] : resolved.type;
+    switch (type) {
+      case 'object':
+        return Object.fromEntries(
+          Object.entries(resolved.properties ?? {}).map(([property, propertySchema]) => [
+            property,
+            this.buildExample(contract, propertySchema),
+          ]),
+        );
+      case 'array':
+        return resolved.items ? [this.buildExample(contract, resolved.items)] : [];
+      case 'string':
+        return 'x'.repeat(resolved.minLength ?? 0);
+      case 'number':
+      case 'integer':
+        return resolved.minimum ?? 0;
+      case 'boolean':
+        return false;
+      default:
+        return null;
+    }
+  }
+
+  private resolveSchema(contract: OpenApiDocument, ref: string): OpenApiSchema {
+    const name = ContractLoader.getSchemaName(ref);
+    const schema = contract.components.schemas[name];
+
+    if (!schema) {
+      ErrorHandler.logAndThrow(
+        `Contract reference '${ref}' points to no schema in components.schemas`,
+        'resolveSchema',
+      );
+    }
+
+    return schema;
+  }
+}
@@ -0,0 +1,232 @@
+import path from 'path';
+import * as prettier from 'prettier';
+import ContractLoader from './contractLoader';
+import { JsonSchema } from '../../models/api/jsonSchema.interface';
+import {
+  CONTRACT_PARAMS,
+  OpenApiDocument,
+  OpenApiSchema,
+} from '../../models/api/openApi.interface';
+import ErrorHandler from '../../utils/errors/errorHandler';
+import AsyncFileManager from '../../utils/fileManagers/asyncFileManager';
+import logger from '../../utils/logging/loggerManager';
+
+/**
+ * Generates the TypeScript interfaces, the JSON schemas the responses are validated against
+ * and the test-data templates from the OpenAPI contract, so the three cannot drift apart.
+ * Output is formatted with the repository's Prettier configuration.
+ */
+export class ContractGenerator {
+  constructor(private readonly contractPath: string = CONTRACT_PARAMS.CONTRACT_PATH) {}
+
+  /**
+   * Regenerates every artefact from the contract.
+   *
+   * @returns The paths of the written files, relative to the working directory
+   * @throws Will throw an error if the contract cannot be loaded or a file cannot be written.
+   */
+  public async generate(): Promise<string[]> {
+    try {
+      const contract = await ContractLoader.load(this.contractPath);
+      const files = new Map<string, string>([
+        [CONTRACT_PARAMS.TYPES_OUTPUT, this.renderTypes(contract)],
+        ...this.renderSchemas(contract),
+        [CONTRACT_PARAMS.SCHEMAS_INDEX, this.renderSchemaIndex(contract)],
+        [CONTRACT_PARAMS.TEMPLATES_OUTPUT, JSON.stringify(this.renderTemplates(contract), null, 2)],
+      ]);
+
+      for (const [filePath, content] of files) {
+        await this.writeFormatted(filePath, content);
+      }
+
+      logger.info(`Generated ${files.size} file(s) from ${this.contractPath}`);
+      return Array.from(files.keys());
+    } catch (error) {
+      ErrorHandler.captureError(error, 'generate', `Failed to generate from ${this.contractPath}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Renders one exported interface (or type alias for non-object schemas) per component schema.
+   */
+  public renderTypes(contract: OpenApiDocument): string {
+    const declarations = Object.entries(contract.components.schemas).map(([name, schema]) => {
+      const doc = this.renderDoc(
+        schema.description || (schema.title !== name ? schema.title : undefined),
+        '',
+      );
+
+      if (schema.type === 'object') {
+        return `${doc}export interface ${name} ${this.renderObjectType(schema, '')}`;
+      }
+      return `${doc}export type ${name} = ${this.renderType(schema, '')};`;
+    });
+
+    return `${this.renderHeader()}\n${declarations.join('\n\n')}\n`;
+  }
+
+  /**
+   * Renders one JSON schema document per component, with references rewritten to registry ids.
+   *
+   * @returns File path and content of every schema document
+   */
+  public renderSchemas(contract: OpenApiDocument): [string, string][] {
+    return Object.entries(contract.components.schemas).map(([name, schema]) => [
+      this.getSchemaFilePath(name),
+      JSON.stringify({ $id: name, ...this.toJsonSchema(schema) }, null, 2),
+    ]);
+  }
+
+  /**
+   * Renders a template per `x-template` component: every string, number and boolean becomes
+   * a `${property}` placeholder, which TemplateEngine replaces with the value and its type.
+   */
+  public renderTemplates(contract: OpenApiDocument): Record<string, unknown> {
+    return Object.fromEntries(
+      Object.entries(contract.components.schemas)
+        .filter(([, schema]) => schema['x-template'])
+        .map(([name, schema]) => [name, this.renderTemplate(contract, schema, name)]),
+    );
+  }
+
+  private renderSchemaIndex(contract: OpenApiDocument): string {
+    const names = Object.keys(contract.components.schemas);
+    const variable = (name: string) => `${this.toCamelCase(name)}Schema`;
+    const imports = names.map(
+      (name) =>
+        `import * as ${variable(name)} from './${path.basename(this.getSchemaFilePath(name))}';`,
+    );
+
+    return (
+      `${this.renderHeader()}\n${imports.join('\n')}\n\n` +
+      `export const CONTRACT_SCHEMAS = [${names.map(variable).join(', ')}];\n`
+    );
+  }
+
+  private renderHeader(): string {
+    return (
+      `// Generated from ${this.contractPath} by ContractGenerator.\n` +
+      `// Do not edit by hand: change the contract and run \`npm run generate:contract\`.\n`
+    );
+  }
+
+  private renderDoc(text: string | undefined, indent: string): string {
+    return text ? `${indent}/** ${text} */\n` : '';
+  }
+
+  private renderObjectType(schema: OpenApiSchema, indent: string): string {
+    const required = new Set(schema.required ?? []);
+    const members = Object.entries(schema.properties ?? {}).map(([property, propertySchema]) => {
+      const doc = this.renderDoc(
+        propertySchema.description || (propertySchema.format === 'date' ? 'YYYY-MM-DD' : undefined),
+        `${indent}  `,
+      );
+      const optional = required.has(property) ? '' : '?';
+      return `${doc}${indent}  ${property}${optional}: ${this.renderType(propertySchema, `${indent}  `)};`;
+    });
+
+    return `{\n${members.join('\n')}\n${indent}}`;
+  }
+
+  private renderType(schema: OpenApiSchema, indent: string): string {
+    if (schema.$ref) {
+      return ContractLoader.getSchemaName(schema.$ref);
+    }
+    if (schema.oneOf) {
+      return schema.oneOf.map((option) => this.renderType(option, indent)).join(' | ');
+    }
+    if (schema.enum) {
+      return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+    }
+
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    return types
+      .map((type) => {
+        switch (type) {
+          case 'object':
+            return this.renderObjectType(schema, indent);
+          case 'array':
+            return schema.items ? `${this.renderType(schema.items, indent)}[]` : 'unknown[]';
+          case 'integer':
+          case 'number':
+            return 'number';
+          case 'string':
+          case 'boolean':
+          case 'null':
+            return type;
+          default:
+            return 'unknown';
+        }
+      })
+      .join(' | ');
+  }
+
+  private toJsonSchema(schema: OpenApiSchema): JsonSchema {
+    const { example: _example, 'x-template': _template, oneOf: _oneOf, ...rest } = schema;
+    const jsonSchema: JsonSchema = { ...rest } as JsonSchema;
+
+    if (schema.$ref) {
+      jsonSchema.$ref = ContractLoader.getSchemaName(schema.$ref);
+    }
+    if (schema.properties) {
+      jsonSchema.properties = Object.fromEntries(
+        Object.entries(schema.properties).map(([property, propertySchema]) => [
+          property,
+          this.toJsonSchema(propertySchema),
+        ]),
+      );
+    }
+    if (schema.items) {
+      jsonSchema.items = this.toJsonSchema(schema.items);
+    }
+    if (typeof schema.additionalProperties === 'object') {
+      jsonSchema.additionalProperties = this.toJsonSchema(schema.additionalProperties);
+    }
+    if (schema.oneOf) {
+      jsonSchema.oneOf = schema.oneOf.map((option) => this.toJsonSchema(option));
+    }
+
+    return jsonSchema;
+  }
+
+  private renderTemplate(contract: OpenApiDocument, schema: OpenApiSchema, name: string): unknown {
+    const resolved = schema.$ref
+      ? contract.components.schemas[ContractLoader.getSchemaName(schema.$ref)]
+      : schema;
+    const type = Array.isArray(resolved.type) ? resolved.type[0] : resolved.type;
+
+    switch (type) {
+      case 'object':
+        return Object.fromEntries(
+          Object.entries(resolved.properties ?? {}).map(([property, propertySchema]) => [
+            property,
+            this.renderTemplate(contract, propertySchema, property),
+          ]),
+        );
+      case 'array':
+        return [];
+      default:
+        return `\${${name}}`;
+    }
+  }
+
+  private async writeFormatted(filePath: string, content: string): Promise<void> {
+    const absolutePath = path.resolve(filePath);
+    const options = await prettier.resolveConfig(absolutePath);
+    const formatted = await prettier.format(content, { ...options, filepath: absolutePath });
+
+    await AsyncFileManager.writeFile(absolutePath, formatted, path.basename(filePath));
+  }
+
+  private getSchemaFilePath(name: string): string {
+    return path.posix.join(
+      CONTRACT_PARAMS.SCHEMAS_DIRECTORY,
+      `${this.toCamelCase(name)}${CONTRACT_PARAMS.SCHEMA_FILE_EXTENSION}`,
+    );
+  }
+
+  private toCamelCase(name: string): string {
+    return `${name.charAt(0).toLowerCase()}${name.slice(1)}`;
+  }
+}
@@ -0,0 +1,67 @@
+import path from 'path';
+import { CONTRACT_PARAMS, OpenApiDocument } from '../../models/api/openApi.interface';
+import { ErrorCategory } from '../../models/utils/errorCategory.enum';
+import { AppError } from '../../utils/errors/AppError';
+import AsyncFileManager from '../../utils/fileManagers/asyncFileManager';
+
+export default class ContractLoader {
+  /**
+   * Loads the OpenAPI contract.
+   *
+   * @param contractPath - Path of the contract, relative to the working directory
+   * @returns The parsed contract
+   * @throws AppError with ErrorCategory.FILE_NOT_FOUND if the contract does not exist.
+   * @throws AppError with ErrorCategory.PARSING if it is not an OpenAPI document with component schemas.
+   */
+  public static async load(
+    contractPath: string = CONTRACT_PARAMS.CONTRACT_PATH,
+  ): Promise<OpenApiDocument> {
+    const filePath = path.resolve(contractPath);
+
+    if (!(await AsyncFileManager.doesFileExist(filePath))) {
+      throw new AppError(
+        ErrorCategory.FILE_NOT_FOUND,
+        { contractPath },
+        `No API contract found at ${contractPath}`,
+      );
+    }
+
+    let contract: OpenApiDocument;
+    try {
+      contract = JSON.parse(await AsyncFileManager.readFile(filePath)) as OpenApiDocument;
+    } catch (error) {
+      throw new AppError(
+        ErrorCategory.PARSING,
+        { contractPath, reason: error instanceof Error ? error.message : String(error) },
+        `API contract at ${contractPath} is not valid JSON`,
+      );
+    }
+
+    if (!contract?.openapi || !contract.components?.schemas) {
+      throw new AppError(
+        ErrorCategory.PARSING,
+        { contractPath },
+        `API contract at ${contractPath} is not an OpenAPI document with components.schemas`,
+      );
+    }
+
+    return contract;
+  }
+
+  /**
+   * Gets the component name of an OpenAPI reference, e.g. `Booking` for `#/components/schemas/Booking`.
+   *
+   * @throws AppError with ErrorCategory.PARSING for references outside components.schemas.
+   */
+  public static getSchemaName(ref: string): string {
+    if (!ref.startsWith(CONTRACT_PARAMS.SCHEMA_REF_PREFIX)) {
+      throw new AppError(
+        ErrorCategory.PARSING,
+        { ref },
+        `Unsupported contract reference '${ref}', expected ${CONTRACT_PARAMS.SCHEMA_REF_PREFIX}<Name>`,
+      );
+    }
+
+    return ref.slice(CONTRACT_PARAMS.SCHEMA_REF_PREFIX.length);
+  }
+}
@@ -100,6 +100,16 @@ export class ApiBaseUrlBuilder {
     }
   }
 
+  /**
+   * Gets the initialized base URL.
+   * @returns The API base URL.
+   * @throws Will throw an error if the base URL is not initialized.
+   */
+  public getBaseUrl(): string {
+    this.ensureInitialized();
+    return this.baseUrl as string;
+  }
+
   /**
    * Normalizes an endpoint by ensuring it starts with a slash.
    * @param endpoint - The endpoint to normalize.
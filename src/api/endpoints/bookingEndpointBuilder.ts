@@ -19,6 +19,16 @@ export class BookingEndpointBuilder {
     }
   }
 
+  public async pingEndpoint() {
+    try {
+      const pingEndpoint = `${types.ResourceEndpoints.ping}`;
+      return this.generateUrl(pingEndpoint, 'ping');
+    } catch (error) {
+      ErrorHandler.captureError(error, 'pingEndpoint', 'Failed to create ping endpoint');
+      throw error;
+    }
+  }
+
   public async bookingEndpoint() {
     try {
       const bookingEndpoint = `${types.ResourceEndpoints.booking}`;
@@ -45,6 +55,42 @@ export class BookingEndpointBuilder {
     }
   }
 
+  /**
+   * Builds the collection URL of a resource, or the item URL when an identifier is given.
+   *
+   * @param resourceType - The resource to build the URL for
+   * @param resourceId - Optional identifier of a single item
+   * @param query - Optional query parameters
+   * @returns The resource URL
+   */
+  public async resourceEndpoint(
+    resourceType: types.ResourceType,
+    resourceId?: number | string,
+    query?: types.QueryParameters,
+  ) {
+    try {
+      if (resourceId !== undefined) {
+        this.validateParameters({ resourceId }, 'resourceEndpoint');
+      }
+
+      const resourceEndpoint =
+        resourceId === undefined
+          ? types.ResourceEndpoints[resourceType]
+          : `${types.ResourceEndpoints[resourceType]}/${encodeURIComponent(String(resourceId))}`;
+      return this.generateUrl(
+        `${resourceEndpoint}${this.buildQueryString(query, 'resourceEndpoint')}`,
+        resourceType,
+      );
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        'resourceEndpoint',
+        `Failed to create ${resourceType} resource endpoint`,
+      );
+      throw error;
+    }
+  }
+
   private async generateUrl(endpoint: string, resourceType: types.ResourceType): Promise<string> {
     try {
       // Ensure the builder is initialized before using it
@@ -62,6 +108,39 @@ export class BookingEndpointBuilder {
     }
   }
 
+  /**
+   * Encodes query parameters, returning an empty string when there are none.
+   * Undefined values are dropped; date parameters such as checkin and checkout must use the YYYY-MM-DD format.
+   */
+  private buildQueryString(query: types.QueryParameters | undefined, methodName: string): string {
+    const params: types.ParameterMap = {};
+    for (const [key, value] of Object.entries(query ?? {})) {
+      if (value !== undefined) {
+        params[key] = value;
+      }
+    }
+
+    if (Object.keys(params).length === 0) {
+      return '';
+    }
+
+    this.validateParameters(params, methodName);
+
+    for (const key of types.DateParameters) {
+      if (key in params && !/^\d{4}-\d{2}-\d{2}$/.test(String(params[key]))) {
+        ErrorHandler.logAndThrow(
+          `Parameter '${key}' must be a date in YYYY-MM-DD format, received '${params[key]}'`,
+          `${methodName}.buildQueryString`,
+        );
+      }
+    }
+
+    const searchParams = new URLSearchParams(
+      Object.entries(params).map(([key, value]) => [key, String(value)]),
+    );
+    return `?${searchParams.toString()}`;
+  }
+
   private validateParameters(params: types.ParameterMap, methodName: string): void {
     for (const [key, value] of Object.entries(params)) {
       if (value === undefined || value === null || value === '') {
@@ -0,0 +1,212 @@
+import { expect, test } from '@playwright/test';
+import { AuthStrategyFactory } from '../client/auth/authStrategyFactory';
+import { Booking } from '../services/booking';
+import { AuthStrategyName } from '../../models/api/authStrategy.interface';
+import { Booking as BookingPayload } from '../../models/api/booking.interface';
+import {
+  AuthenticatedFlowContext,
+  BookedFlowContext,
+  EmptyFlowContext,
+  FlowStep,
+  FlowValue,
+} from '../../models/api/bookingFlow.interface';
+import ErrorHandler from '../../utils/errors/errorHandler';
+import logger from '../../utils/logging/loggerManager';
+
+/**
+ * Typed builder for multi-step booking workflows:
+ *
+ *   await flow().authenticate().createBooking().update().verify().run();
+ *
+ * Every step adds its outputs (the auth strategy, the booking ID, the current booking) to a
+ * context the later steps receive, and the builder's type tracks them, so a step that needs a
+ * booking only compiles after createBooking. Nothing is sent until run(); each step then runs
+ * as a Playwright `test.step`, so a failure is reported on the step it happened in.
+ */
+export class BookingFlow<C extends object = EmptyFlowContext> {
+  private constructor(
+    private readonly booking: Booking,
+    private readonly authStrategies: AuthStrategyFactory,
+    private readonly steps: FlowStep[],
+  ) {}
+
+  /**
+   * @returns A flow without steps
+   */
+  public static start(
+    booking: Booking,
+    authStrategies: AuthStrategyFactory,
+  ): BookingFlow<EmptyFlowContext> {
+    return new BookingFlow(booking, authStrategies, []);
+  }
+
+  /**
+   * Adds a custom step.
+   *
+   * @param name - Title of the step, or a function of the context computing it
+   * @param run - Does the work; its result is merged into the context of the later steps
+   */
+  public step<O extends object = EmptyFlowContext>(
+    name: FlowValue<C, string>,
+    run: (context: C) => Promise<O | void>,
+  ): BookingFlow<C & O> {
+    return new BookingFlow<C & O>(this.booking, this.authStrategies, [
+      ...this.steps,
+      {
+        describe: (context) => this.resolve(name, context as C),
+        run: (context) => run(context as C),
+      },
+    ]);
+  }
+
+  /**
+   * Resolves the credentials of an auth strategy, so later steps are authorized.
+   */
+  public authenticate(
+    strategy: AuthStrategyName = 'cookie',
+  ): BookingFlow<C & AuthenticatedFlowContext> {
+    return this.step(`authenticate with ${strategy} auth`, async () => {
+      const auth = this.authStrategies.create(strategy);
+      await auth.getHeaders();
+      return { auth };
+    });
+  }
+
+  /**
+   * @param payload - The booking to create, defaults to a generated booking
+   */
+  public createBooking(payload?: FlowValue<C, BookingPayload>): BookingFlow<C & BookedFlowContext> {
+    return this.step('create booking', async (context) => {
+      const response = await this.booking.createNewBooking(
+        payload === undefined ? undefined : this.resolve(payload, context),
+      );
+      return { bookingId: response.data.bookingid, booking: response.data.booking };
+    });
+  }
+
+  /**
+   * Replaces the booking and checks the response echoes the new booking.
+   *
+   * @param payload - The new booking, defaults to a generated booking
+   */
+  public update(
+    this: BookingFlow<C & AuthenticatedFlowContext & BookedFlowContext>,
+    payload?: FlowValue<C, BookingPayload>,
+  ): BookingFlow<C & AuthenticatedFlowContext & BookedFlowContext> {
+    return this.step(
+      ({ bookingId }) => `update booking ${bookingId}`,
+      async (context) => {
+        const response = await this.booking.updateBookingById(
+          context.bookingId,
+          context.auth,
+          payload === undefined ? undefined : this.resolve(payload, context),
+        );
+        return { booking: response.data as BookingPayload };
+      },
+    );
+  }
+
+  /**
+   * Partially updates the booking and checks the response echoes the changes.
+   *
+   * @param payload - The changes, defaults to a generated booking
+   */
+  public patch(
+    this: BookingFlow<C & AuthenticatedFlowContext & BookedFlowContext>,
+    payload?: FlowValue<C, BookingPayload>,
+  ): BookingFlow<C & AuthenticatedFlowContext & BookedFlowContext> {
+    return this.step(
+      ({ bookingId }) => `partially update booking ${bookingId}`,
+      async (context) => {
+        const response = await this.booking.partiallyUpdateBookingById(
+          context.bookingId,
+          context.auth,
+          payload === undefined ? undefined : this.resolve(payload, context),
+        );
+        return { booking: response.data as BookingPayload };
+      },
+    );
+  }
+
+  public delete(
+    this: BookingFlow<C & AuthenticatedFlowContext & BookedFlowContext>,
+  ): BookingFlow<C & AuthenticatedFlowContext & BookedFlowContext> {
+    return this.step(
+      ({ bookingId }) => `delete booking ${bookingId}`,
+      async ({ bookingId, auth }) => {
+        await this.booking.deleteBookingById(bookingId, auth);
+      },
+    );
+  }
+
+  /**
+   * Fetches the booking and checks it, by default against the booking the flow last sent.
+   *
+   * @param check - Custom assertions on the fetched booking
+   */
+  public verify(
+    this: BookingFlow<C & BookedFlowContext>,
+    check?: (stored: BookingPayload, context: C & BookedFlowContext) => void | Promise<void>,
+  ): BookingFlow<C & BookedFlowContext> {
+    return this.step(
+      ({ bookingId }) => `verify booking ${bookingId}`,
+      async (context) => {
+        const { data: stored } = await this.booking.fetchBookingById(context.bookingId);
+
+        if (check) {
+          await check(stored, context);
+        } else {
+          expect(stored, `Booking ${context.bookingId} as stored by the API`).toEqual(
+            context.booking,
+          );
+        }
+      },
+    );
+  }
+
+  /**
+   * Checks the booking can no longer be fetched.
+   */
+  public verifyDeleted(
+    this: BookingFlow<C & BookedFlowContext>,
+  ): BookingFlow<C & BookedFlowContext> {
+    return this.step(
+      ({ bookingId }) => `verify booking ${bookingId} is deleted`,
+      async ({ bookingId }) => {
+        await this.booking.getBookingByIdNotFound(bookingId);
+      },
+    );
+  }
+
+  /**
+   * Runs the steps in order, each as a `test.step`, and stops at the first failing step.
+   *
+   * @returns The outputs of all steps
+   * @throws The error of the failing step, after logging the step it failed in.
+   */
+  public async run(): Promise<C> {
+    let context: object = {};
+
+    for (const [index, step] of this.steps.entries()) {
+      const title = `Step ${index + 1}/${this.steps.length}: ${step.describe(context)}`;
+
+      const output = await test.step(title, async () => {
+        try {
+          return await step.run(context);
+        } catch (error) {
+          ErrorHandler.captureError(error, 'run', `Booking flow failed at ${title}`);
+          throw error;
+        }
+      });
+
+      context = { ...context, ...output };
+      logger.debug(`Booking flow completed ${title}`);
+    }
+
+    return context as C;
+  }
+
+  private resolve<T>(value: FlowValue<C, T>, context: C): T {
+    return typeof value === 'function' ? (value as (context: C) => T)(context) : value;
+  }
+}
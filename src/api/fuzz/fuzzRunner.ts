@@ -0,0 +1,209 @@
+import { AxiosResponse } from 'axios';
+import { ResourceRegistry } from '../cleanup/resourceRegistry';
+import { ApiClient } from '../client/apiClient';
+import JsonSchemaValidator from '../validators/jsonSchemaValidator';
+import {
+  DEFAULT_FUZZ_OPTIONS,
+  FUZZ_PARAMS,
+  FuzzFailure,
+  FuzzFailureKind,
+  FuzzOptions,
+  FuzzReport,
+  FuzzStatusClass,
+  FuzzTarget,
+} from '../../models/api/fuzz.interface';
+import { PropertyGenerator, Shrinkable } from '../../models/api/propertyGenerator.interface';
+import { SeededRandom } from '../../testData/random/seededRandom';
+import SeedFlag from '../../utils/environment/seedFlag';
+import logger from '../../utils/logging/loggerManager';
+
+interface FuzzOutcome {
+  statusClass: FuzzStatusClass;
+  status?: number;
+  failure?: { kind: FuzzFailureKind; reason: string };
+}
+
+/**
+ * Sends generated inputs through ApiClient and classifies the responses by status class.
+ * A 5xx, a successful response that violates the contract or a request without a response
+ * counts as a failure. The first failure of every kind is shrunk to the simplest input
+ * that still fails the same way.
+ */
+export class FuzzRunner {
+  /**
+   * @param resourceRegistry - Tracks what successful inputs create, so the test's teardown deletes it
+   */
+  constructor(
+    private readonly apiClient: ApiClient,
+    private readonly resourceRegistry?: ResourceRegistry,
+  ) {}
+
+  /**
+   * @param target - The request the inputs are sent as
+   * @param generator - Generates the inputs
+   * @param options - Overrides for DEFAULT_FUZZ_OPTIONS; seed defaults to FUZZ_SEED, else random
+   * @returns The classification and the shrunk failures
+   * @throws Will throw an error if FUZZ_SEED is not a 32-bit unsigned integer.
+   */
+  public async run<T extends object>(
+    target: FuzzTarget,
+    generator: PropertyGenerator<T>,
+    options: Partial<FuzzOptions> = {},
+  ): Promise<FuzzReport<T>> {
+    const { runs, maxShrinkAttempts, seed } = { ...DEFAULT_FUZZ_OPTIONS, ...options };
+    const random = new SeededRandom(seed ?? SeedFlag.getSeed(FUZZ_PARAMS.SEED_VARIABLE));
+    const targetName = `${target.method.toUpperCase()} ${target.endpoint}`;
+
+    logger.info(
+      `Fuzzing ${targetName} with ${runs} input(s), ` +
+        `seed ${random.getSeed()} (replay with ${FUZZ_PARAMS.SEED_VARIABLE}=${random.getSeed()})`,
+    );
+
+    const report: FuzzReport<T> = {
+      target: targetName,
+      seed: random.getSeed(),
+      runs,
+      statusClasses: {},
+      failedRuns: 0,
+      failures: [],
+    };
+
+    for (let run = 1; run <= runs; run++) {
+      const input = generator.generate(random);
+      const outcome = await this.evaluate(target, input.value);
+      report.statusClasses[outcome.statusClass] =
+        (report.statusClasses[outcome.statusClass] ?? 0) + 1;
+
+      if (!outcome.failure) {
+        continue;
+      }
+
+      report.failedRuns++;
+      if (!report.failures.some(({ kind }) => kind === outcome.failure?.kind)) {
+        report.failures.push(await this.shrink(target, input, outcome, run, maxShrinkAttempts));
+      }
+    }
+
+    logger.info(
+      `Fuzzed ${targetName}: ${JSON.stringify(report.statusClasses)}, ` +
+        `${report.failedRuns} failed run(s), seed ${report.seed}`,
+    );
+    return report;
+  }
+
+  /**
+   * Describes every failure as one line with its shrunk input.
+   *
+   * @returns An empty array if no run failed
+   */
+  public static summarize<T>(report: FuzzReport<T>): string[] {
+    return report.failures.map(
+      ({ kind, run, reason, shrunkInput }) =>
+        `${kind} in run ${run}: ${reason}; shrunk input ${JSON.stringify(shrunkInput)}`,
+    );
+  }
+
+  private async evaluate<T extends object>(target: FuzzTarget, input: T): Promise<FuzzOutcome> {
+    let response: AxiosResponse<unknown>;
+    try {
+      response = await this.send(target, input);
+    } catch (error) {
+      return {
+        statusClass: 'no-response',
+        failure: {
+          kind: 'request-failed',
+          reason: error instanceof Error ? error.message : String(error),
+        },
+      };
+    }
+
+    const { status } = response;
+    const statusClass = `${Math.floor(status / 100)}xx` as FuzzStatusClass;
+
+    if (statusClass === '2xx' && target.method === 'post' && target.createdResource) {
+      this.resourceRegistry?.trackCreated(target.createdResource, response.data);
+    }
+
+    if (status >= 500) {
+      return {
+        statusClass,
+        status,
+        failure: { kind: 'server-error', reason: `answered ${status}` },
+      };
+    }
+
+    if (statusClass === '2xx' && target.responseSchema) {
+      const violations = JsonSchemaValidator.validate(response.data, target.responseSchema);
+      if (violations.length > 0) {
+        const reason = JsonSchemaValidator.format(violations).join('; ');
+        return { statusClass, status, failure: { kind: 'contract-violation', reason } };
+      }
+    }
+
+    return { statusClass, status };
+  }
+
+  private async send(target: FuzzTarget, input: object): Promise<AxiosResponse<unknown>> {
+    switch (target.method) {
+      case 'post':
+        return this.apiClient.sendPostRequest(target.endpoint, input, target.authorization);
+      case 'put':
+        return this.apiClient.sendPutRequest(target.endpoint, input, target.authorization);
+      case 'patch':
+        return this.apiClient.sendPatchRequest(target.endpoint, input, target.authorization);
+    }
+  }
+
+  /**
+   * Greedily replaces the input with its first simpler candidate that fails the same way,
+   * until no candidate does or the attempts are used up.
+   */
+  private async shrink<T extends object>(
+    target: FuzzTarget,
+    input: Shrinkable<T>,
+    outcome: FuzzOutcome,
+    run: number,
+    maxShrinkAttempts: number,
+  ): Promise<FuzzFailure<T>> {
+    const failure = outcome.failure as NonNullable<FuzzOutcome['failure']>;
+    let current = { input, outcome };
+    let steps = 0;
+    let attempts = 0;
+
+    let shrunk = true;
+    while (shrunk && attempts < maxShrinkAttempts) {
+      shrunk = false;
+
+      for (const candidate of current.input.shrink()) {
+        if (attempts >= maxShrinkAttempts) {
+          break;
+        }
+        attempts++;
+
+        const candidateOutcome = await this.evaluate(target, candidate.value);
+        if (candidateOutcome.failure?.kind === failure.kind) {
+          current = { input: candidate, outcome: candidateOutcome };
+          steps++;
+          shrunk = true;
+          break;
+        }
+      }
+    }
+
+    logger.warn(
+      `${failure.kind} in run ${run} shrunk in ${steps} step(s): ` +
+        JSON.stringify(current.input.value),
+    );
+
+    return {
+      kind: failure.kind,
+      run,
+      status: current.outcome.status,
+      reason: current.outcome.failure?.reason ?? failure.reason,
+      input: input.value,
+      shrunkInput: current.input.value,
+      shrinkSteps: steps,
+      shrinkAttempts: attempts,
+    };
+  }
+}
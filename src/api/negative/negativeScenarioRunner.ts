@@ -0,0 +1,199 @@
+import { AxiosResponse } from 'axios';
+import { ResourceRegistry } from '../cleanup/resourceRegistry';
+import { ApiClient } from '../client/apiClient';
+import { AuthStrategyFactory } from '../client/auth/authStrategyFactory';
+import { RequestExpectation } from '../context/requestExpectation';
+import { BookingEndpointBuilder } from '../endpoints/bookingEndpointBuilder';
+import { Booking } from '../services/booking';
+import {
+  HttpMethod,
+  RequestAuthorization,
+  RequestOptions,
+} from '../../models/api/apiClient.interface';
+import {
+  NEGATIVE_SCENARIO_PARAMS,
+  NegativeScenario,
+  NegativeScenarioOutcome,
+  NegativeScenarioReport,
+  NegativeScenarioResult,
+} from '../../models/api/negativeScenario.interface';
+import { BookingFactory } from '../../testData/factories/bookingFactory';
+import logger from '../../utils/logging/loggerManager';
+
+/**
+ * Executes negative scenarios against /booking and reports how the API answered each of them.
+ *
+ * Every scenario is sent with a negative RequestExpectation of its expected statuses, named after
+ * the scenario, so a response counts as rejected exactly when the expectation expects its status.
+ * Scenarios run one after another; one that is not rejected does not stop the others.
+ */
+export class NegativeScenarioRunner {
+  private static readonly METHODS: Record<NegativeScenario['operation'], HttpMethod> = {
+    get: 'get',
+    create: 'post',
+    replace: 'put',
+    patch: 'patch',
+    delete: 'delete',
+  };
+
+  /**
+   * @param resourceRegistry - Tracks the bookings of create scenarios the API accepts, so the
+   * test's teardown deletes them
+   */
+  constructor(
+    private readonly apiClient: ApiClient,
+    private readonly endpointBuilder: BookingEndpointBuilder,
+    private readonly booking: Booking,
+    private readonly bookingFactory: BookingFactory,
+    private readonly authStrategies: AuthStrategyFactory,
+    private readonly resourceRegistry?: ResourceRegistry,
+  ) {}
+
+  /**
+   * @param scenarios - The scenarios to execute, e.g. BookingNegativeScenarios.all()
+   * @returns The outcome of every scenario and the ones that were not rejected as expected
+   * @throws Will throw an error if a booking for an 'existing' scenario cannot be created.
+   */
+  public async run(scenarios: NegativeScenario[]): Promise<NegativeScenarioReport> {
+    const report: NegativeScenarioReport = { results: [], outcomes: {}, unexpected: [] };
+
+    for (const scenario of scenarios) {
+      const result = await this.execute(scenario);
+      report.results.push(result);
+      report.outcomes[result.outcome] = (report.outcomes[result.outcome] ?? 0) + 1;
+
+      if (result.outcome !== 'rejected' && !result.knownGap) {
+        report.unexpected.push(result);
+      }
+    }
+
+    logger.info(
+      `Ran ${scenarios.length} negative scenario(s): ${JSON.stringify(report.outcomes)}, ` +
+        `${report.unexpected.length} not rejected as expected`,
+    );
+    return report;
+  }
+
+  /**
+   * Describes every scenario as one line, e.g.
+   * `rejected: delete booking without a token (DELETE <base>/booking/1 answered 403, expected 403)`.
+   */
+  public static summarize(report: NegativeScenarioReport): string[] {
+    return report.results.map(
+      ({ name, method, endpoint, expectedStatuses, status, outcome, knownGap, reason }) =>
+        `${outcome}: ${name} (${method.toUpperCase()} ${endpoint} ` +
+        `${status === undefined ? `failed: ${reason}` : `answered ${status}`}, ` +
+        `expected ${expectedStatuses.join(' or ')})` +
+        (knownGap ? ` [known gap: ${knownGap}]` : ''),
+    );
+  }
+
+  private async execute(scenario: NegativeScenario): Promise<NegativeScenarioResult> {
+    const { name, operation, expectedStatuses, knownGap } = scenario;
+    const method = NegativeScenarioRunner.METHODS[operation];
+
+    const expectation = RequestExpectation.negative(name, expectedStatuses);
+
+    const endpoint = await this.endpointBuilder.resourceEndpoint(
+      'booking',
+      operation === 'create' ? undefined : await this.resolveBookingId(scenario),
+    );
+    const result = { name, method, endpoint, expectedStatuses, knownGap };
+
+    let response: AxiosResponse<unknown>;
+    try {
+      response = await this.send(method, endpoint, scenario, expectation);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      logger.warn(`Negative scenario '${name}' got no response: ${reason}`);
+      return { ...result, outcome: 'request-failed', reason };
+    }
+
+    if (operation === 'create' && response.status >= 200 && response.status < 300) {
+      this.resourceRegistry?.trackCreated('booking', response.data);
+    }
+
+    const outcome = this.classify(expectation, response.status);
+    this.log({ ...result, status: response.status, outcome });
+    return { ...result, status: response.status, outcome };
+  }
+
+  private async resolveBookingId(scenario: NegativeScenario): Promise<number | string> {
+    const { bookingId = 'existing' } = scenario;
+    if (bookingId !== 'existing') {
+      return bookingId;
+    }
+
+    const response = await this.booking.createNewBooking();
+    return (response.data as { bookingid: number }).bookingid;
+  }
+
+  private async send(
+    method: HttpMethod,
+    endpoint: string,
+    scenario: NegativeScenario,
+    expectation: RequestExpectation,
+  ): Promise<AxiosResponse<unknown>> {
+    const authorization = this.createAuthorization(scenario);
+    const payload = scenario.payload?.(this.bookingFactory);
+    const options: RequestOptions = {
+      headers: scenario.headers,
+      rawBody: scenario.rawBody,
+      expectation,
+    };
+
+    switch (method) {
+      case 'get':
+        return this.apiClient.sendGetRequest(endpoint, authorization, options);
+      case 'post':
+        return this.apiClient.sendPostRequest(endpoint, payload, authorization, options);
+      case 'put':
+        return this.apiClient.sendPutRequest(endpoint, payload, authorization, options);
+      case 'patch':
+        return this.apiClient.sendPatchRequest(endpoint, payload, authorization, options);
+      case 'delete':
+        return this.apiClient.sendDeleteRequest(endpoint, authorization, options);
+    }
+  }
+
+  private createAuthorization(scenario: NegativeScenario): RequestAuthorization | undefined {
+    switch (scenario.authorization) {
+      case 'none':
+        return undefined;
+      case 'garbage-token':
+        return this.apiClient.setCookieToken(NEGATIVE_SCENARIO_PARAMS.GARBAGE_TOKEN);
+      case 'expired-token':
+        return this.apiClient.setCookieToken(NEGATIVE_SCENARIO_PARAMS.EXPIRED_TOKEN);
+      case 'valid':
+        return this.authStrategies.create('cookie');
+    }
+  }
+
+  private classify(expectation: RequestExpectation, status: number): NegativeScenarioOutcome {
+    if (expectation.isExpectedStatus(status)) {
+      return 'rejected';
+    }
+    if (status >= 500) {
+      return 'server-error';
+    }
+    return status >= 400 ? 'rejected-differently' : 'accepted';
+  }
+
+  private log(result: NegativeScenarioResult): void {
+    const description = `Negative scenario '${result.name}' answered ${result.status}`;
+
+    if (result.outcome === 'rejected') {
+      logger.info(
+        result.knownGap
+          ? `${description}; the known gap no longer reproduces: ${result.knownGap}`
+          : description,
+      );
+    } else if (result.knownGap) {
+      logger.info(`${description} (${result.outcome}), a known gap: ${result.knownGap}`);
+    } else {
+      logger.warn(
+        `${description} (${result.outcome}), expected ${result.expectedStatuses.join(' or ')}`,
+      );
+    }
+  }
+}
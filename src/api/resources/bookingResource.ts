@@ -0,0 +1,48 @@
+import { Booking, BookingIdentifier, BookingResponse } from '../../models/api/booking.interface';
+import { ResourceDefinition } from '../../models/api/resource.interface';
+
+export interface BookingResourceShape {
+  entity: Booking;
+  listItem: BookingIdentifier;
+  created: BookingResponse;
+  payload: Booking;
+}
+
+/**
+ * Restful Booker /booking resource. Response bodies are checked against the schemas in SchemaRegistry.
+ * Note that the API answers a successful DELETE with 201 Created.
+ */
+export const BookingResource: ResourceDefinition<BookingResourceShape> = {
+  resourceType: 'booking',
+  operations: {
+    list: {
+      context: 'getAllBookings',
+      expectedStatus: 200,
+      responseSchema: 'BookingIdentifierList',
+    },
+    get: {
+      context: 'getBookingById',
+      expectedStatus: 200,
+      responseSchema: 'Booking',
+    },
+    create: {
+      context: 'createNewBooking',
+      expectedStatus: 200,
+      responseSchema: 'BookingResponse',
+    },
+    replace: {
+      context: 'updateBookingById',
+      expectedStatus: 200,
+      responseSchema: 'Booking',
+    },
+    patch: {
+      context: 'partiallyUpdateBookingById',
+      expectedStatus: 200,
+      responseSchema: 'Booking',
+    },
+    delete: {
+      context: 'deleteBookingById',
+      expectedStatus: 201,
+    },
+  },
+};
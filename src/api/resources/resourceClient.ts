@@ -0,0 +1,187 @@
+import { AxiosResponse } from 'axios';
+import { ApiClient } from '../client/apiClient';
+import { RequestExpectation } from '../context/requestExpectation';
+import { BookingEndpointBuilder } from '../endpoints/bookingEndpointBuilder';
+import ApiResponseValidator from '../validators/apiResponseValidator';
+import {
+  ResourceDefinition,
+  ResourceOperation,
+  ResourceOperations,
+  ResourceOperationSchema,
+  ResourceRequest,
+  ResourceShape,
+} from '../../models/api/resource.interface';
+import ApiErrorResponseBuilder from '../../utils/errors/apiErrorResponseBuilder';
+import ErrorHandler from '../../utils/errors/errorHandler';
+
+type OperationResponse<S extends ResourceShape, O extends ResourceOperation> =
+  ResourceOperations<S>[O] extends ResourceOperationSchema<infer T> ? T : never;
+
+/**
+ * Generic client for a Restful Booker resource, driven by its ResourceDefinition.
+ *
+ * Every operation sends its request through ApiClient with a RequestExpectation built from the
+ * operation's schema, validates the status code, the expectation and the declared body validator,
+ * and reports failures with the operation's context key.
+ */
+export class ResourceClient<S extends ResourceShape> {
+  constructor(
+    private readonly apiClient: ApiClient,
+    private readonly endpointBuilder: BookingEndpointBuilder,
+    private readonly definition: ResourceDefinition<S>,
+  ) {}
+
+  public async list(
+    request: Omit<ResourceRequest<S>, 'id' | 'payload'> = {},
+  ): Promise<AxiosResponse<S['listItem'][]>> {
+    return this.execute('list', request);
+  }
+
+  public async get(
+    id: number | string,
+    request: Omit<ResourceRequest<S>, 'id' | 'payload'> = {},
+  ): Promise<AxiosResponse<S['entity']>> {
+    return this.execute('get', { ...request, id });
+  }
+
+  public async create(
+    payload: S['payload'],
+    request: Omit<ResourceRequest<S>, 'id' | 'payload'> = {},
+  ): Promise<AxiosResponse<S['created']>> {
+    return this.execute('create', { ...request, payload });
+  }
+
+  public async replace(
+    id: number | string,
+    payload: S['payload'],
+    request: Omit<ResourceRequest<S>, 'id' | 'payload'> = {},
+  ): Promise<AxiosResponse<S['entity']>> {
+    return this.execute('replace', { ...request, id, payload });
+  }
+
+  public async patch(
+    id: number | string,
+    payload: Partial<S['payload']>,
+    request: Omit<ResourceRequest<S>, 'id' | 'payload'> = {},
+  ): Promise<AxiosResponse<S['entity']>> {
+    return this.execute('patch', { ...request, id, payload });
+  }
+
+  public async delete(
+    id: number | string,
+    request: Omit<ResourceRequest<S>, 'id' | 'payload'> = {},
+  ): Promise<AxiosResponse<unknown>> {
+    return this.execute('delete', { ...request, id });
+  }
+
+  /**
+   * Sends an operation that is expected to be rejected with the given status code.
+   * Expected rejections are logged; anything else is reported and rethrown.
+   *
+   * @param operation - The declared operation to send
+   * @param expectedStatus - The status code the API should reject the request with
+   * @param request - Identifier, payload, authorization and extra expectations of the request
+   */
+  public async expectRejection(
+    operation: ResourceOperation,
+    expectedStatus: number,
+    request: ResourceRequest<S> = {},
+  ): Promise<void> {
+    const { context } = this.getSchema(operation);
+    const expectation = RequestExpectation.negative(context, [expectedStatus], request.expect);
+
+    try {
+      const response = await this.send(operation, request, expectation);
+
+      ApiResponseValidator.validateNegativeTestResponse(response, expectation);
+    } catch (error) {
+      ApiErrorResponseBuilder.handleNegativeTestError(error, context);
+    }
+  }
+
+  private async execute<O extends ResourceOperation>(
+    operation: O,
+    request: ResourceRequest<S>,
+  ): Promise<AxiosResponse<OperationResponse<S, O>>> {
+    const schema = this.getSchema(operation) as ResourceOperationSchema<OperationResponse<S, O>>;
+    const expectation = RequestExpectation.positive(
+      schema.context,
+      schema.expectedStatus,
+      request.expect,
+    );
+
+    try {
+      const response = await this.send<OperationResponse<S, O>>(operation, request, expectation);
+
+      ApiResponseValidator.validatePositiveTestResponse(response, expectation);
+      if (schema.responseSchema) {
+        ApiResponseValidator.validateResponseSchema(
+          response,
+          schema.responseSchema,
+          schema.context,
+        );
+      }
+      await schema.validate?.(response);
+
+      return response;
+    } catch (error) {
+      ApiErrorResponseBuilder.captureApiError(
+        error,
+        schema.context,
+        `Failed to ${operation} ${this.definition.resourceType}`,
+      );
+      throw error;
+    }
+  }
+
+  private async send<T>(
+    operation: ResourceOperation,
+    { id, payload, query, authorization }: ResourceRequest<S>,
+    expectation: RequestExpectation,
+  ): Promise<AxiosResponse<T>> {
+    const isItemOperation = operation !== 'list' && operation !== 'create';
+    if (isItemOperation && id === undefined) {
+      ErrorHandler.logAndThrow(
+        `Operation '${operation}' on ${this.definition.resourceType} requires an id`,
+        'send',
+      );
+    }
+
+    const endpoint = await this.endpointBuilder.resourceEndpoint(
+      this.definition.resourceType,
+      isItemOperation ? id : undefined,
+      query,
+    );
+
+    const options = { expectation };
+
+    switch (operation) {
+      case 'list':
+      case 'get':
+        return this.apiClient.sendGetRequest<T>(endpoint, authorization, options);
+      case 'create':
+        return this.apiClient.sendPostRequest<T>(endpoint, payload, authorization, options);
+      case 'replace':
+        return this.apiClient.sendPutRequest<T>(endpoint, payload, authorization, options);
+      case 'patch':
+        return this.apiClient.sendPatchRequest<T>(endpoint, payload, authorization, options);
+      case 'delete':
+        return this.apiClient.sendDeleteRequest<T>(endpoint, authorization, options);
+    }
+  }
+
+  private getSchema(operation: ResourceOperation): ResourceOperationSchema<unknown> {
+    const schema = this.definition.operations[operation] as
+      | ResourceOperationSchema<unknown>
+      | undefined;
+
+    if (!schema) {
+      ErrorHandler.logAndThrow(
+        `Operation '${operation}' is not declared for resource '${this.definition.resourceType}'`,
+        'getSchema',
+      );
+    }
+
+    return schema;
+  }
+}
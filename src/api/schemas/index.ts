@@ -0,0 +1,22 @@
+// Generated from contracts/restfulBooker.openapi.json by ContractGenerator.
+// Do not edit by hand: change the contract and run `npm run generate:contract`.
+
+import * as credentialsSchema from './credentials.schema.json';
+import * as validTokenResponseSchema from './validTokenResponse.schema.json';
+import * as invalidTokenResponseSchema from './invalidTokenResponse.schema.json';
+import * as bookingDatesSchema from './bookingDates.schema.json';
+import * as bookingSchema from './booking.schema.json';
+import * as bookingResponseSchema from './bookingResponse.schema.json';
+import * as bookingIdentifierSchema from './bookingIdentifier.schema.json';
+import * as bookingIdentifierListSchema from './bookingIdentifierList.schema.json';
+
+export const CONTRACT_SCHEMAS = [
+  credentialsSchema,
+  validTokenResponseSchema,
+  invalidTokenResponseSchema,
+  bookingDatesSchema,
+  bookingSchema,
+  bookingResponseSchema,
+  bookingIdentifierSchema,
+  bookingIdentifierListSchema,
+];
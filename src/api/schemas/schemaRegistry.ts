@@ -0,0 +1,57 @@
+import { CONTRACT_SCHEMAS } from './index';
+import { JsonSchema } from '../../models/api/jsonSchema.interface';
+import ErrorHandler from '../../utils/errors/errorHandler';
+
+/**
+ * Registry of the JSON Schema documents responses are validated against, keyed by their `$id`.
+ * The schemas generated from the API contract are registered up front; further schemas can be added with register.
+ */
+export default class SchemaRegistry {
+  private static readonly schemas = new Map<string, JsonSchema>();
+
+  static {
+    CONTRACT_SCHEMAS.forEach((schema) => this.register(schema as JsonSchema));
+  }
+
+  /**
+   * Registers a schema under its `$id`, replacing any schema with the same id.
+   *
+   * @param schema - The schema document
+   * @throws Will throw an error if the schema has no `$id`.
+   */
+  public static register(schema: JsonSchema): void {
+    if (!schema.$id) {
+      ErrorHandler.logAndThrow('Cannot register a JSON schema without an $id', 'register');
+    }
+
+    // JSON module imports carry a `default` export that is not part of the document
+    const { default: _default, ...document } = schema as JsonSchema & { default?: unknown };
+    this.schemas.set(schema.$id, document);
+  }
+
+  /**
+   * @param id - The `$id` of the schema
+   * @returns The registered schema
+   * @throws Will throw an error if no schema is registered under the id.
+   */
+  public static get(id: string): JsonSchema {
+    const schema = this.schemas.get(id);
+
+    if (!schema) {
+      ErrorHandler.logAndThrow(
+        `No JSON schema registered as '${id}'. Registered: ${this.getIds().join(', ')}`,
+        'get',
+      );
+    }
+
+    return schema;
+  }
+
+  public static has(id: string): boolean {
+    return this.schemas.has(id);
+  }
+
+  public static getIds(): string[] {
+    return Array.from(this.schemas.keys());
+  }
+}
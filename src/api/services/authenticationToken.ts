@@ -2,10 +2,12 @@ import { AxiosResponse } from 'axios';
 import { BookingEndpointBuilder } from '../endpoints/bookingEndpointBuilder';
 import { EnvironmentResolver } from '../../config/environment/resolver/environmentResolver';
 import { ApiClient } from '../client/apiClient';
-import RequestContext from '../context/requestContext';
+import { RequestExpectation } from '../context/requestExpectation';
 import ApiResponseValidator from '../validators/apiResponseValidator';
-import * as tokenCredentials from '../../testData/tokenCredentials.json';
 import BookingValidations from '../validators/bookingValidations';
+import { CONTRACT_PARAMS } from '../../models/api/openApi.interface';
+import { UserCredentials } from '../../models/utils/userCredentials.interface';
+import { TemplateEngine } from '../../testData/templates/templateEngine';
 import ApiErrorResponseBuilder from '../../utils/errors/apiErrorResponseBuilder';
 import ErrorHandler from '../../utils/errors/errorHandler';
 
@@ -13,50 +15,50 @@ export class AuthenticationToken {
   private apiClient: ApiClient;
   private bookingEndpointBuilder: BookingEndpointBuilder;
   private environmentResolver: EnvironmentResolver;
+  private templateEngine: TemplateEngine;
 
   constructor(
     apiClient: ApiClient,
     bookingEndpointBuilder: BookingEndpointBuilder,
     environmentResolver: EnvironmentResolver,
+    templateEngine: TemplateEngine,
   ) {
     this.apiClient = apiClient;
     this.bookingEndpointBuilder = bookingEndpointBuilder;
     this.environmentResolver = environmentResolver;
+    this.templateEngine = templateEngine;
   }
   public async requestTokenWithInvalidCredentials(): Promise<void> {
     try {
-      // Register negative test expectation.
+      // Negative test expectation.
       // Note: This is a demo website (Restful Booker) that returns HTTP 200 even for failed authentication attempts.
       // Although 200 typically implies success, we must validate the response content to confirm it's an actual failure.
       // This behavior is incorrect by REST standards, but it's outside our control in this demo environment.
-
-      RequestContext.registerExpectation('requestTokenWithInvalidCredentials', [200], true);
+      const expectation = RequestExpectation.negative('requestTokenWithInvalidCredentials', [200]);
 
       // Resolve the username from the active environment configuration
       const { username } = await this.environmentResolver.getTokenCredentials();
 
-      // Create a fresh copy of the base credentials template to avoid mutating shared test data.
-      // Override the username and password with valid credentials from the current environment.
-      const userCredentials = { ...tokenCredentials.Credentials };
-
-      userCredentials.username = username;
-      userCredentials.password = 'invalid_password';
+      // Pair the valid username with a password that cannot be right
+      const userCredentials = await this.createTokenPayload(username, 'invalid_password');
 
       // Send authentication request with invalid credentials
       const response = await this.apiClient.sendPostRequest(
         await this.bookingEndpointBuilder.tokenEndpoint(),
         userCredentials,
         undefined,
+        { expectation },
       );
 
-      BookingValidations.validateInvalidTokenResponse(response);
-
-      // Validate the API response to confirm expected failure
-      ApiResponseValidator.validateNegativeTestResponse(
+      ApiResponseValidator.validateResponseSchema(
         response,
-        200,
+        'InvalidTokenResponse',
         'requestTokenWithInvalidCredentials',
       );
+      BookingValidations.validateInvalidTokenResponse(response);
+
+      // Validate the API response to confirm expected failure
+      ApiResponseValidator.validateNegativeTestResponse(response, expectation);
     } catch (error) {
       ApiErrorResponseBuilder.handleNegativeTestError(error, 'requestTokenWithInvalidCredentials');
     }
@@ -64,8 +66,8 @@ export class AuthenticationToken {
 
   public async requestTokenWithValidCredentials(): Promise<AxiosResponse> {
     try {
-      // Register positive test expectation
-      RequestContext.registerExpectation('requestTokenWithValidCredentials', [200], false);
+      // Positive test expectation
+      const expectation = RequestExpectation.positive('requestTokenWithValidCredentials', 200);
 
       // Resolve the username from the active environment configuration
       const { username, password } = await this.environmentResolver.getTokenCredentials();
@@ -77,15 +79,16 @@ export class AuthenticationToken {
         await this.bookingEndpointBuilder.tokenEndpoint(),
         userCredentials,
         undefined,
+        { expectation },
       );
 
-      // Validate response structure and content
-      BookingValidations.validateValidTokenResponse(response);
-
       // Validate response matches expected status code
-      ApiResponseValidator.validatePositiveTestResponse(
+      ApiResponseValidator.validatePositiveTestResponse(response, expectation);
+
+      // Validate response structure
+      ApiResponseValidator.validateResponseSchema(
         response,
-        200,
+        'ValidTokenResponse',
         'requestTokenWithValidCredentials',
       );
 
@@ -100,22 +103,30 @@ export class AuthenticationToken {
     }
   }
 
-  private async createTokenPayload(username: string, password: string) {
+  private async createTokenPayload(username: string, password: string): Promise<UserCredentials> {
     try {
-      // Create a fresh copy of the base credentials template to avoid mutating shared test data.
-      // Override the username and password with valid credentials from the current environment.
-      const userCredentials = { ...tokenCredentials.Credentials };
-
-      userCredentials.username = username;
-      userCredentials.password = password;
-
-      return userCredentials;
+      // Resolve the credentials template with the given username and password
+      return await this.templateEngine.resolveFile<UserCredentials>(
+        CONTRACT_PARAMS.TEMPLATES_OUTPUT,
+        { username, password },
+        'Credentials',
+      );
     } catch (error) {
       ErrorHandler.captureError(error, 'createTokenPayload', 'Failed to create token payload');
       throw error;
     }
   }
 
+  /**
+   * Requests a token with the valid credentials of the active environment.
+   *
+   * @returns The token string
+   */
+  public async requestToken(): Promise<string> {
+    const response = await this.requestTokenWithValidCredentials();
+    return this.getTokenFromResponse(response);
+  }
+
   /**
    * Extracts token from response
    * @param response The Axios response object
@@ -1,232 +1,125 @@
 import { AxiosResponse } from 'axios';
+import { ResourceRegistry } from '../cleanup/resourceRegistry';
 import { BookingEndpointBuilder } from '../endpoints/bookingEndpointBuilder';
 import { ApiClient } from '../client/apiClient';
-import RequestContext from '../context/requestContext';
+import { BookingResource, BookingResourceShape } from '../resources/bookingResource';
+import { ResourceClient } from '../resources/resourceClient';
 import BookingValidations from '../validators/bookingValidations';
-import * as bd from '../../testData/bookingData.json';
-import { BookingDateGenerator } from '../../testData/bookingDateGenerator';
-import ApiResponseValidator from '../validators/apiResponseValidator';
-import ApiErrorResponseBuilder from '../../utils/errors/apiErrorResponseBuilder';
+import { AuthStrategy } from '../../models/api/authStrategy.interface';
+import { BookingDatasetRow } from '../../models/api/bookingDataset.interface';
+import {
+  Booking as BookingPayload,
+  BookingFilter,
+  BookingIdentifier,
+  BookingResponse,
+} from '../../models/api/booking.interface';
+import { BookingFactory } from '../../testData/factories/bookingFactory';
 
 export class Booking {
-  private apiClient: ApiClient;
-  private bookingEndpointBuilder: BookingEndpointBuilder;
-
-  constructor(apiClient: ApiClient, bookingEndpointBuilder: BookingEndpointBuilder) {
-    this.apiClient = apiClient;
-    this.bookingEndpointBuilder = bookingEndpointBuilder;
+  private bookings: ResourceClient<BookingResourceShape>;
+
+  /**
+   * @param resourceRegistry - Tracks every created booking, so the test's teardown deletes it
+   */
+  constructor(
+    apiClient: ApiClient,
+    bookingEndpointBuilder: BookingEndpointBuilder,
+    private readonly bookingFactory: BookingFactory,
+    private readonly resourceRegistry?: ResourceRegistry,
+  ) {
+    this.bookings = new ResourceClient(apiClient, bookingEndpointBuilder, BookingResource);
   }
 
   public async getAllBookings(): Promise<void> {
-    try {
-      RequestContext.registerExpectation('getAllBookings', [200], false);
-
-      const response = await this.apiClient.sendGetRequest(
-        await this.bookingEndpointBuilder.bookingEndpoint(),
-      );
-
-      // Validate response structure and content
-      BookingValidations.validateGetAllBookingsResponse(response);
-
-      // Validate response matches expected status code
-      ApiResponseValidator.validatePositiveTestResponse(response, 200, 'getAllBookings');
-    } catch (error) {
-      ApiErrorResponseBuilder.captureApiError(
-        error,
-        'getAllBookings',
-        'Failed to get all bookings',
-      );
-      throw error;
-    }
+    await this.bookings.list();
   }
 
-  public async createNewBooking(): Promise<AxiosResponse> {
-    try {
-      RequestContext.registerExpectation('createNewBooking', [200], false);
-
-      const response = await this.apiClient.sendPostRequest(
-        await this.bookingEndpointBuilder.bookingEndpoint(),
-        this.createBookingPayload(),
-        undefined,
-      );
-
-      ApiResponseValidator.validatePositiveTestResponse(response, 200, 'createNewBooking');
-
-      // Validate response structure and content
-      BookingValidations.validateNewlyCreatedBooking(response);
-
-      return response;
-    } catch (error) {
-      ApiErrorResponseBuilder.captureApiError(
-        error,
-        'createNewBooking',
-        'Failed to create new booking',
-      );
-      throw error;
+  /**
+   * Searches bookings with the GET /booking query filters, then fetches every returned booking
+   * and asserts it actually matches the filter.
+   *
+   * @param filter - Name and date filters to search by
+   * @returns The search response
+   */
+  public async searchBookings(filter: BookingFilter): Promise<AxiosResponse<BookingIdentifier[]>> {
+    const response = await this.bookings.list({ query: { ...filter } });
+
+    for (const { bookingid } of response.data) {
+      const bookingResponse = await this.bookings.get(bookingid);
+      BookingValidations.assertBookingMatchesFilter(bookingResponse, bookingid, filter);
     }
-  }
-
-  private createBookingPayload(): typeof bd.Booking {
-    const payload = { ...bd.Booking };
 
-    payload.firstname = bd.FirstNames[3];
-    payload.lastname = bd.LastNames[7];
-
-    const min = 111;
-    const max = 670;
-    payload.totalprice = Math.floor(Math.random() * (max - min + 1)) + min;
-    payload.depositpaid = true;
+    return response;
+  }
 
-    const getDates = BookingDateGenerator.createBookingDatesfromCurrentDate(4);
-    payload.bookingdates.checkin = getDates.checkin;
-    payload.bookingdates.checkout = getDates.checkout;
+  /**
+   * @param payload - The booking to create, defaults to a generated booking for a four-night stay
+   */
+  public async createNewBooking(
+    payload: BookingPayload = this.bookingFactory.booking().withStay(4).build(),
+  ): Promise<AxiosResponse> {
+    return this.create(payload);
+  }
 
-    payload.additionalneeds = bd.AdditionalNeeds[2];
+  /**
+   * Sends the payload of a data-driven scenario and checks the status and fields it expects.
+   *
+   * @param row - The scenario, from BookingDataset
+   */
+  public async createBookingFromDataset(row: BookingDatasetRow): Promise<void> {
+    if (row.expectedStatus !== BookingResource.operations.create?.expectedStatus) {
+      await this.bookings.expectRejection('create', row.expectedStatus, { payload: row.payload });
+      return;
+    }
 
-    return payload;
+    const response = await this.create(row.payload);
+    BookingValidations.assertBookingHasFields(response, row.expectedFields);
   }
 
   public async getBookingById(bookingId: number): Promise<void> {
-    try {
-      RequestContext.registerExpectation('getBookingById', [200], false);
-
-      const response = await this.apiClient.sendGetRequest(
-        await this.bookingEndpointBuilder.getBookingByIdEndpoint(bookingId),
-      );
-
-      ApiResponseValidator.validatePositiveTestResponse(response, 200, 'getBookingById');
-      BookingValidations.validateGetBookingByIdResponse(response);
-      BookingValidations.assertBookingDetailsMatchStoredResponse(response);
-    } catch (error) {
-      ApiErrorResponseBuilder.captureApiError(
-        error,
-        'getBookingById',
-        'Failed to get booking by ID',
-      );
-      throw error;
-    }
+    const response = await this.bookings.get(bookingId);
+    await BookingValidations.assertBookingDetailsMatchStoredResponse(response);
   }
 
-  public async getBookingByIdNotFound(bookingId: number): Promise<void> {
-    try {
-      RequestContext.registerExpectation('getBookingById', [404], true);
-
-      const response = await this.apiClient.sendGetRequest(
-        await this.bookingEndpointBuilder.getBookingByIdEndpoint(bookingId),
-      );
-
-      ApiResponseValidator.validateNegativeTestResponse(response, 404, 'getBookingById');
-    } catch (error) {
-      ApiErrorResponseBuilder.handleNegativeTestError(error, 'getBookingById');
-    }
+  /**
+   * Fetches a booking without asserting its content, for callers that check it themselves.
+   */
+  public async fetchBookingById(bookingId: number): Promise<AxiosResponse<BookingPayload>> {
+    return this.bookings.get(bookingId);
   }
 
-  public async updateBookingById(bookingId: number, token: string): Promise<AxiosResponse> {
-    try {
-      RequestContext.registerExpectation('updateBookingById', [200], false);
-
-      const response = await this.apiClient.sendPutRequest(
-        await this.bookingEndpointBuilder.getBookingByIdEndpoint(bookingId),
-        this.updateBookingPayload(),
-        this.apiClient.setCookieToken(token),
-      );
-      ApiResponseValidator.validatePositiveTestResponse(response, 200, 'updateBookingById');
-
-      // Validate response structure and content
-      BookingValidations.validateGetBookingByIdResponse(response);
-      BookingValidations.assertUpdatedBookingDetailsMatchStoredResponse(response);
-      return response;
-    } catch (error) {
-      ApiErrorResponseBuilder.captureApiError(
-        error,
-        'updateBookingById',
-        'Failed to update booking by ID',
-      );
-      throw error;
-    }
+  public async getBookingByIdNotFound(bookingId: number): Promise<void> {
+    await this.bookings.expectRejection('get', 404, { id: bookingId });
   }
 
-  private updateBookingPayload(): typeof bd.Booking {
-    const payload = { ...bd.Booking };
-
-    payload.firstname = bd.FirstNames[3];
-    payload.lastname = bd.LastNames[7];
-
-    payload.totalprice = 1850;
-    payload.depositpaid = true;
-
-    const getDates = BookingDateGenerator.createBookingDatesfromCurrentDate(10);
-    payload.bookingdates.checkin = getDates.checkin;
-    payload.bookingdates.checkout = getDates.checkout;
-
-    payload.additionalneeds = bd.AdditionalNeeds[2];
-
-    return payload;
+  public async updateBookingById(
+    bookingId: number,
+    auth: AuthStrategy,
+    payload: BookingPayload = this.bookingFactory.booking().withStay(10).build(),
+  ): Promise<AxiosResponse> {
+    const response = await this.bookings.replace(bookingId, payload, { authorization: auth });
+    BookingValidations.assertBookingMatchesPayload(response, payload, 'updated');
+    return response;
   }
 
   public async partiallyUpdateBookingById(
     bookingId: number,
-    token: string,
+    auth: AuthStrategy,
+    payload: BookingPayload = this.bookingFactory.booking().withStay(3).build(),
   ): Promise<AxiosResponse> {
-    try {
-      RequestContext.registerExpectation('partillyUpdateBookingById', [200], false);
-
-      const response = await this.apiClient.sendPatchRequest(
-        await this.bookingEndpointBuilder.getBookingByIdEndpoint(bookingId),
-        this.partiallyUpdateBookingPayload(),
-        this.apiClient.setCookieToken(token),
-      );
-      ApiResponseValidator.validatePositiveTestResponse(response, 200, 'partillyUpdateBookingById');
-
-      // Validate response structure and content
-      BookingValidations.validateGetBookingByIdResponse(response);
-      BookingValidations.assertPartiallyUpdatedBookingDetailsMatchStoredResponse(response);
-      return response;
-    } catch (error) {
-      ApiErrorResponseBuilder.captureApiError(
-        error,
-        'partillyUpdateBookingById',
-        'Failed to partially update booking by ID',
-      );
-      throw error;
-    }
+    const response = await this.bookings.patch(bookingId, payload, { authorization: auth });
+    BookingValidations.assertBookingMatchesPayload(response, payload, 'partially updated');
+    return response;
   }
 
-  private partiallyUpdateBookingPayload() {
-    const payload = { ...bd.Booking };
-
-    payload.firstname = bd.FirstNames[5];
-    payload.lastname = bd.LastNames[7];
-
-    payload.totalprice = 920;
-    payload.depositpaid = true;
-
-    const getDates = BookingDateGenerator.createBookingDatesfromCurrentDate(3);
-    payload.bookingdates.checkin = getDates.checkin;
-    payload.bookingdates.checkout = getDates.checkout;
-
-    payload.additionalneeds = bd.AdditionalNeeds[0];
-
-    return payload;
+  public async deleteBookingById(bookingId: number, auth: AuthStrategy): Promise<void> {
+    await this.bookings.delete(bookingId, { authorization: auth });
+    this.resourceRegistry?.untrack('booking', bookingId);
   }
 
-  public async deleteBookingById(bookingId: number, token: string): Promise<void> {
-    try {
-      RequestContext.registerExpectation('deleteBookingById', [201], false);
-
-      const response = await this.apiClient.sendDeleteRequest(
-        await this.bookingEndpointBuilder.getBookingByIdEndpoint(bookingId),
-        this.apiClient.setCookieToken(token),
-      );
-
-      ApiResponseValidator.validatePositiveTestResponse(response, 201, 'deleteBookingById');
-    } catch (error) {
-      ApiErrorResponseBuilder.captureApiError(
-        error,
-        'deleteBookingById',
-        'Failed to delete booking by ID',
-      );
-      throw error;
-    }
+  private async create(payload: BookingPayload): Promise<AxiosResponse<BookingResponse>> {
+    const response = await this.bookings.create(payload);
+    this.resourceRegistry?.track('booking', response.data.bookingid);
+    return response;
   }
 }
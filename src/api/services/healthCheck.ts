@@ -0,0 +1,88 @@
+import { ApiClient } from '../client/apiClient';
+import { ApiRetryPolicy } from '../client/apiRetryPolicy';
+import { BookingEndpointBuilder } from '../endpoints/bookingEndpointBuilder';
+import {
+  DEFAULT_HEALTH_CHECK_OPTIONS,
+  HEALTH_CHECK_PARAMS,
+  HealthCheckOptions,
+} from '../../models/api/healthCheck.interface';
+import { ErrorCategory } from '../../models/utils/errorCategory.enum';
+import { AppError } from '../../utils/errors/AppError';
+import ErrorHandler from '../../utils/errors/errorHandler';
+import logger from '../../utils/logging/loggerManager';
+
+export class HealthCheck {
+  private apiClient: ApiClient;
+  private bookingEndpointBuilder: BookingEndpointBuilder;
+
+  constructor(apiClient: ApiClient, bookingEndpointBuilder: BookingEndpointBuilder) {
+    this.apiClient = apiClient;
+    this.bookingEndpointBuilder = bookingEndpointBuilder;
+  }
+
+  /**
+   * Pings the API once.
+   *
+   * @param requestTimeoutMs - Timeout of the ping request
+   * @returns True if the API answered the ping with 201 Created
+   */
+  public async ping(
+    requestTimeoutMs: number = DEFAULT_HEALTH_CHECK_OPTIONS.requestTimeoutMs,
+  ): Promise<boolean> {
+    const response = await this.apiClient.sendGetRequest(
+      await this.bookingEndpointBuilder.pingEndpoint(),
+      undefined,
+      { timeoutMs: requestTimeoutMs },
+    );
+
+    return response?.status === HEALTH_CHECK_PARAMS.HEALTHY_STATUS;
+  }
+
+  /**
+   * Pings the API until it is healthy or the readiness timeout expires.
+   *
+   * @param options - Optional overrides for DEFAULT_HEALTH_CHECK_OPTIONS
+   * @throws AppError with ErrorCategory.CONNECTION if the API does not become healthy in time.
+   */
+  public async waitUntilHealthy(options: Partial<HealthCheckOptions> = {}): Promise<void> {
+    const { readinessTimeoutMs, pollIntervalMs, requestTimeoutMs } = {
+      ...DEFAULT_HEALTH_CHECK_OPTIONS,
+      ...options,
+    };
+    const pingEndpoint = await this.bookingEndpointBuilder.pingEndpoint();
+    const deadline = Date.now() + readinessTimeoutMs;
+    let attempts = 0;
+    let lastFailure = 'no response';
+
+    while (true) {
+      attempts++;
+
+      try {
+        if (await this.ping(Math.min(requestTimeoutMs, Math.max(deadline - Date.now(), 1)))) {
+          logger.info(`API at ${pingEndpoint} is healthy after ${attempts} ping(s)`);
+          return;
+        }
+        lastFailure = `ping did not answer ${HEALTH_CHECK_PARAMS.HEALTHY_STATUS}`;
+      } catch (error) {
+        lastFailure = ErrorHandler.getErrorMessage(error);
+      }
+
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        break;
+      }
+
+      logger.warn(
+        `API at ${pingEndpoint} is not healthy yet (${lastFailure}), retrying in ${pollIntervalMs}ms`,
+      );
+      await ApiRetryPolicy.wait(Math.min(pollIntervalMs, remainingMs));
+    }
+
+    throw new AppError(
+      ErrorCategory.CONNECTION,
+      { url: pingEndpoint, readinessTimeoutMs, attempts, lastFailure },
+      `Restful Booker API at ${pingEndpoint} did not become healthy within ${readinessTimeoutMs}ms ` +
+        `(${attempts} ping(s), last failure: ${lastFailure}). Aborting the test run.`,
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { TOKEN_MANAGER_PARAMS, TokenSource } from '../../models/api/tokenManager.interface';
+import ErrorHandler from '../../utils/errors/errorHandler';
+import Clock from '../../utils/time/clock';
+
+/**
+ * Caches the authentication token so tests share one /auth round-trip.
+ * Token-based auth strategies refresh it when a protected endpoint rejects the cached token.
+ */
+export class TokenManager {
+  private token: string | null = null;
+
+  // When the cached token was issued, in epoch milliseconds
+  private issuedAt = 0;
+
+  // Shared by concurrent callers while a token request is in flight
+  private pendingToken: Promise<string> | null = null;
+
+  constructor(private readonly tokenSource: TokenSource) {}
+
+  /**
+   * Gets the cached token, requesting one if none is cached yet.
+   *
+   * @returns The token string
+   */
+  public async getToken(): Promise<string> {
+    if (this.token) {
+      return this.token;
+    }
+
+    this.pendingToken ??= this.requestToken();
+    return this.pendingToken;
+  }
+
+  /**
+   * Discards the cached token and requests a new one.
+   *
+   * @returns The new token string
+   */
+  public async refreshToken(): Promise<string> {
+    this.invalidate();
+    return this.getToken();
+  }
+
+  /**
+   * Handles a token the API rejected. The token is only refreshed if it is still the cached one
+   * and older than TOKEN_MANAGER_PARAMS.MAX_TOKEN_AGE_MS; a fresh token that is rejected is not
+   * stale, so a new one would be rejected too.
+   *
+   * @param rejectedToken - The token the API rejected
+   * @returns True if the cached token differs from the rejected one, either because another caller
+   * already refreshed it or because it was refreshed now
+   */
+  public async refreshRejectedToken(rejectedToken: string): Promise<boolean> {
+    if ((await this.getToken()) !== rejectedToken) {
+      return true;
+    }
+
+    if (Clock.now().getTime() - this.issuedAt < TOKEN_MANAGER_PARAMS.MAX_TOKEN_AGE_MS) {
+      return false;
+    }
+
+    return (await this.refreshToken()) !== rejectedToken;
+  }
+
+  /**
+   * Discards the cached token; the next getToken call re-authenticates.
+   */
+  public invalidate(): void {
+    this.token = null;
+  }
+
+  private async requestToken(): Promise<string> {
+    try {
+      this.token = await this.tokenSource.requestToken();
+      this.issuedAt = Clock.now().getTime();
+      return this.token;
+    } catch (error) {
+      ErrorHandler.captureError(error, 'requestToken', 'Failed to request authentication token');
+      throw error;
+    } finally {
+      this.pendingToken = null;
+    }
+  }
+}
@@ -0,0 +1,385 @@
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import crypto from 'crypto';
+import { Booking } from '../../models/api/booking.interface';
+import {
+  StandInServerOptions,
+  STAND_IN_SERVER_PARAMS,
+} from '../../models/api/standInServer.interface';
+import { UserCredentials } from '../../models/utils/userCredentials.interface';
+import { ResourceEndpoints } from '../types/resourceTypes.type';
+import ErrorHandler from '../../utils/errors/errorHandler';
+import logger from '../../utils/logging/loggerManager';
+
+type JsonBody = Record<string, unknown>;
+
+/**
+ * In-process stand-in for the public Restful Booker API.
+ *
+ * Implements /ping, /auth, /booking and /booking/:id with the same quirks as the real host:
+ * - POST /auth answers 200 with `{ reason: 'Bad credentials' }` when authentication fails
+ * - DELETE /booking/:id answers 201 Created
+ * - PUT, PATCH and DELETE accept either a `token` cookie or Basic authorization and answer 403 otherwise
+ * - Mutations on an unknown booking answer 405 Method Not Allowed
+ * - Bodies are only read as JSON when the Content-Type says so, otherwise they count as empty
+ */
+export class RestfulBookerStandInServer {
+  private server: http.Server | null = null;
+  private baseUrl: string | null = null;
+  private nextBookingId = 1;
+
+  private readonly bookings = new Map<number, Booking>();
+  private readonly tokens = new Set<string>();
+  private readonly credentials: UserCredentials;
+  private readonly host: string;
+  private readonly port: number;
+
+  constructor(options: StandInServerOptions = {}) {
+    this.host = options.host ?? STAND_IN_SERVER_PARAMS.HOST;
+    this.port = options.port ?? STAND_IN_SERVER_PARAMS.PORT;
+    this.credentials = options.credentials ?? STAND_IN_SERVER_PARAMS.DEFAULT_CREDENTIALS;
+  }
+
+  /**
+   * Factory method for creating and starting a stand-in server
+   *
+   * @param options - Host, port and accepted credentials
+   * @returns A promise that resolves with the running server
+   */
+  public static async start(
+    options: StandInServerOptions = {},
+  ): Promise<RestfulBookerStandInServer> {
+    const server = new RestfulBookerStandInServer(options);
+    await server.listen();
+    return server;
+  }
+
+  /**
+   * Starts listening for requests.
+   * @throws Will throw an error if the server cannot bind to the configured host and port.
+   */
+  public async listen(): Promise<void> {
+    if (this.server) {
+      return;
+    }
+
+    try {
+      const server = http.createServer((request, response) => {
+        void this.handleRequest(request, response);
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(this.port, this.host, () => {
+          server.off('error', reject);
+          resolve();
+        });
+      });
+
+      const { port } = server.address() as AddressInfo;
+      this.server = server;
+      this.baseUrl = `http://${this.host}:${port}`;
+      logger.info(`Restful Booker stand-in server listening on ${this.baseUrl}`);
+    } catch (error) {
+      ErrorHandler.captureError(error, 'listen', 'Failed to start Restful Booker stand-in server');
+      throw error;
+    }
+  }
+
+  /**
+   * Stops the server and discards all bookings and tokens.
+   */
+  public async stop(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    try {
+      await new Promise<void>((resolve, reject) => {
+        server.close((error) => (error ? reject(error) : resolve()));
+        server.closeAllConnections();
+      });
+
+      logger.info(`Restful Booker stand-in server at ${this.baseUrl} stopped`);
+      this.server = null;
+      this.baseUrl = null;
+      this.bookings.clear();
+      this.tokens.clear();
+    } catch (error) {
+      ErrorHandler.captureError(error, 'stop', 'Failed to stop Restful Booker stand-in server');
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the base URL the server is reachable on
+   * @throws Will throw an error if the server is not running.
+   */
+  public getBaseUrl(): string {
+    if (!this.baseUrl) {
+      ErrorHandler.logAndThrow(
+        'Restful Booker stand-in server is not running. Call listen() first.',
+        'getBaseUrl',
+      );
+    }
+    return this.baseUrl;
+  }
+
+  /**
+   * Routes a request to the matching handler. Any unexpected failure answers 500,
+   * which is also what the real host does for payloads it cannot process.
+   */
+  private async handleRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const method = (request.method || 'GET').toUpperCase();
+    const { pathname, searchParams } = new URL(request.url || '/', 'http://stand-in');
+
+    try {
+      const rawBody = await this.readBody(request);
+      const jsonBody = this.isJsonRequest(request) ? rawBody : '';
+
+      if (pathname === ResourceEndpoints.ping && method === 'GET') {
+        return this.sendText(response, 201, 'Created');
+      }
+
+      if (pathname === ResourceEndpoints.token && method === 'POST') {
+        return this.handleAuth(response, jsonBody);
+      }
+
+      if (pathname === ResourceEndpoints.booking) {
+        if (method === 'GET') {
+          return this.handleListBookings(response, searchParams);
+        }
+        if (method === 'POST') {
+          return this.handleCreateBooking(response, jsonBody);
+        }
+        return this.sendText(response, 404, 'Not Found');
+      }
+
+      const bookingIdMatch = pathname.match(new RegExp(`^${ResourceEndpoints.booking}/([^/]+)$`));
+      if (bookingIdMatch) {
+        return this.handleBookingById(request, response, method, bookingIdMatch[1], jsonBody);
+      }
+
+      return this.sendText(response, 404, 'Not Found');
+    } catch (error) {
+      ErrorHandler.captureError(
+        error,
+        'handleRequest',
+        `Stand-in server failed to handle ${method} ${pathname}`,
+      );
+      this.sendText(response, 500, 'Internal Server Error');
+    }
+  }
+
+  private handleAuth(response: ServerResponse, rawBody: string): void {
+    const body = this.parseJson(rawBody);
+    if (!body) {
+      return this.sendText(response, 400, 'Bad Request');
+    }
+
+    if (
+      body.username !== this.credentials.username ||
+      body.password !== this.credentials.password
+    ) {
+      // Restful Booker signals failed authentication in the body, not the status code
+      return this.sendJson(response, 200, { reason: 'Bad credentials' });
+    }
+
+    const token = crypto
+      .randomBytes(STAND_IN_SERVER_PARAMS.TOKEN_LENGTH)
+      .toString('hex')
+      .slice(0, STAND_IN_SERVER_PARAMS.TOKEN_LENGTH);
+    this.tokens.add(token);
+
+    return this.sendJson(response, 200, { token });
+  }
+
+  private handleListBookings(response: ServerResponse, searchParams: URLSearchParams): void {
+    const firstname = searchParams.get('firstname');
+    const lastname = searchParams.get('lastname');
+    const checkin = searchParams.get('checkin');
+    const checkout = searchParams.get('checkout');
+
+    const bookingIds = Array.from(this.bookings.entries())
+      .filter(
+        ([, booking]) =>
+          (firstname === null || booking.firstname === firstname) &&
+          (lastname === null || booking.lastname === lastname) &&
+          (checkin === null || booking.bookingdates.checkin >= checkin) &&
+          (checkout === null || booking.bookingdates.checkout >= checkout),
+      )
+      .map(([bookingid]) => ({ bookingid }));
+    return this.sendJson(response, 200, bookingIds);
+  }
+
+  private handleCreateBooking(response: ServerResponse, rawBody: string): void {
+    const body = this.parseJson(rawBody);
+    if (!body) {
+      return this.sendText(response, 400, 'Bad Request');
+    }
+
+    const booking = this.toBooking(body);
+    if (!booking) {
+      // The real host crashes on incomplete payloads and answers 500
+      return this.sendText(response, 500, 'Internal Server Error');
+    }
+
+    const bookingid = this.nextBookingId++;
+    this.bookings.set(bookingid, booking);
+
+    return this.sendJson(response, 200, { bookingid, booking });
+  }
+
+  private handleBookingById(
+    request: IncomingMessage,
+    response: ServerResponse,
+    method: string,
+    rawBookingId: string,
+    rawBody: string,
+  ): void {
+    const bookingId = Number(rawBookingId);
+    const existing = Number.isInteger(bookingId) ? this.bookings.get(bookingId) : undefined;
+
+    if (method === 'GET') {
+      return existing
+        ? this.sendJson(response, 200, existing)
+        : this.sendText(response, 404, 'Not Found');
+    }
+
+    if (!['PUT', 'PATCH', 'DELETE'].includes(method)) {
+      return this.sendText(response, 404, 'Not Found');
+    }
+
+    if (!this.isAuthorized(request)) {
+      return this.sendText(response, 403, 'Forbidden');
+    }
+
+    if (!existing) {
+      return this.sendText(response, 405, 'Method Not Allowed');
+    }
+
+    if (method === 'DELETE') {
+      this.bookings.delete(bookingId);
+      return this.sendText(response, 201, 'Created');
+    }
+
+    const body = this.parseJson(rawBody);
+    if (!body) {
+      return this.sendText(response, 400, 'Bad Request');
+    }
+
+    const updated =
+      method === 'PUT' ? this.toBooking(body) : this.toBooking(this.mergeBooking(existing, body));
+    if (!updated) {
+      return this.sendText(response, 400, 'Bad Request');
+    }
+
+    this.bookings.set(bookingId, updated);
+    return this.sendJson(response, 200, updated);
+  }
+
+  /**
+   * Accepts a `token` cookie issued by POST /auth or Basic authorization with the configured credentials.
+   */
+  private isAuthorized(request: IncomingMessage): boolean {
+    const cookieToken = (request.headers.cookie || '')
+      .split(';')
+      .map((part) => part.trim())
+      .find((part) => part.startsWith('token='))
+      ?.slice('token='.length);
+
+    if (cookieToken && this.tokens.has(cookieToken)) {
+      return true;
+    }
+
+    const authorization = request.headers.authorization || '';
+    if (authorization.startsWith('Basic ')) {
+      const decoded = Buffer.from(authorization.slice('Basic '.length), 'base64').toString('utf8');
+      return decoded === `${this.credentials.username}:${this.credentials.password}`;
+    }
+
+    return false;
+  }
+
+  private mergeBooking(existing: Booking, patch: JsonBody): JsonBody {
+    const patchDates =
+      patch.bookingdates && typeof patch.bookingdates === 'object'
+        ? (patch.bookingdates as JsonBody)
+        : {};
+
+    return {
+      ...existing,
+      ...patch,
+      bookingdates: { ...existing.bookingdates, ...patchDates },
+    };
+  }
+
+  /**
+   * Converts a request body into a booking, or returns null when required fields are missing or mistyped.
+   */
+  private toBooking(body: JsonBody): Booking | null {
+    const dates = body.bookingdates as JsonBody | undefined;
+
+    const isValid =
+      typeof body.firstname === 'string' &&
+      typeof body.lastname === 'string' &&
+      typeof body.totalprice === 'number' &&
+      typeof body.depositpaid === 'boolean' &&
+      !!dates &&
+      typeof dates === 'object' &&
+      typeof dates.checkin === 'string' &&
+      typeof dates.checkout === 'string' &&
+      (body.additionalneeds === undefined || typeof body.additionalneeds === 'string');
+
+    if (!isValid) {
+      return null;
+    }
+
+    return {
+      firstname: body.firstname as string,
+      lastname: body.lastname as string,
+      totalprice: body.totalprice as number,
+      depositpaid: body.depositpaid as boolean,
+      bookingdates: {
+        checkin: dates.checkin as string,
+        checkout: dates.checkout as string,
+      },
+      additionalneeds: body.additionalneeds as string,
+    };
+  }
+
+  private parseJson(rawBody: string): JsonBody | null {
+    try {
+      const parsed: unknown = JSON.parse(rawBody || '{}');
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+        ? (parsed as JsonBody)
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private isJsonRequest(request: IncomingMessage): boolean {
+    return (request.headers['content-type'] || '').toLowerCase().includes('application/json');
+  }
+
+  private readBody(request: IncomingMessage): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      request.on('data', (chunk: Buffer) => chunks.push(chunk));
+      request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+      request.on('error', reject);
+    });
+  }
+
+  private sendJson(response: ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' });
+    response.end(JSON.stringify(body));
+  }
+
+  private sendText(response: ServerResponse, status: number, body: string): void {
+    response.writeHead(status, { 'Content-Type': 'text/plain; charset=utf-8' });
+    response.end(body);
+  }
+}
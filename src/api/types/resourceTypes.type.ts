@@ -1,12 +1,17 @@
 // Define a type for resource types to ensure type safety
-export type ResourceType = 'token' | 'booking';
+export type ResourceType = 'token' | 'booking' | 'ping';
 
 // Map resource types to their API paths
 export const ResourceEndpoints: Record<ResourceType, string> = {
   token: '/auth',
   booking: '/booking',
+  ping: '/ping',
 };
 
 // Types for parameter validation
 export type ValidParameterValue = string | number | boolean;
 export type ParameterMap = Record<string, ValidParameterValue>;
+export type QueryParameters = Record<string, ValidParameterValue | undefined>;
+
+// Query parameters that Restful Booker parses as YYYY-MM-DD dates
+export const DateParameters = ['checkin', 'checkout'];
@@ -1,31 +1,34 @@
 import { AxiosResponse, AxiosError } from 'axios';
 import { AppError } from '../../utils/errors/AppError';
 import { ErrorCategory } from '../../models/utils/errorCategory.enum';
-import RequestContext from '../context/requestContext';
+import { RequestExpectation } from '../context/requestExpectation';
+import JsonSchemaValidator from './jsonSchemaValidator';
 import ErrorHandler from '../../utils/errors/errorHandler';
 import logger from '../../utils/logging/loggerManager';
 
 export default class ApiResponseValidator {
   /**
    * Validates API responses for positive test flows with comprehensive error handling.
-   * Verifies expected status codes and processes any error responses.
+   * Verifies expected status codes, processes any error responses and checks the
+   * expectation's body matchers and latency budget.
    * @param response - The API response.
-   * @param expectedStatusCode - The expected status code.
-   * @param context - The operation context.
+   * @param expectation - What the request was expected to produce.
    */
   public static validatePositiveTestResponse(
     response: AxiosResponse | null,
-    expectedStatusCode: number,
-    context: string,
+    expectation: RequestExpectation,
   ): void {
+    const { context } = expectation;
+
     try {
-      if (RequestContext.isNegativeTest(context)) {
+      if (expectation.isNegative) {
         logger.warn(`validatePositiveTestResponse called with negative test context: ${context}`);
       }
 
-      const validatedResponse = this.assertResponseNotNull(response, context);
-      this.validateStatusCode(validatedResponse.status, expectedStatusCode, context);
+      const validatedResponse = this.assertResponseNotNull(response, expectation);
+      this.validateStatusCode(validatedResponse.status, expectation);
       this.handleResponseError(validatedResponse);
+      this.validateExpectation(validatedResponse, expectation);
     } catch (error) {
       if (this.isExpectedNegativeTestFailure(error, context)) {
         return;
@@ -41,18 +44,80 @@ export default class ApiResponseValidator {
   }
 
   /**
-   * Validates API responses for negative test flows where errors are expected.
-   * Handles various failure scenarios as successful test outcomes.
+   * Validates the response body against a registered JSON schema.
+   * Every mismatch is reported, not just the first one.
    * @param response - The API response.
-   * @param expectedStatusCode - The expected status code.
+   * @param schemaId - The `$id` of the schema in SchemaRegistry.
    * @param context - The operation context.
+   * @throws AppError with ErrorCategory.VALIDATION listing every failing path.
+   */
+  public static validateResponseSchema(
+    response: AxiosResponse,
+    schemaId: string,
+    context: string,
+  ): void {
+    const violations = JsonSchemaValidator.format(
+      JsonSchemaValidator.validate(response.data, schemaId),
+    );
+
+    if (violations.length === 0) {
+      logger.info(`Schema Validation Successful in [${context}]: ${schemaId}`);
+      return;
+    }
+
+    const errorMessage =
+      `Response of [${context}] does not match schema '${schemaId}' ` +
+      `(${violations.length} violation(s)):\n  ${violations.join('\n  ')}`;
+    logger.error(errorMessage);
+    throw new AppError(ErrorCategory.VALIDATION, { context, schemaId, violations }, errorMessage);
+  }
+
+  /**
+   * Validates the body matchers and the latency budget of an expectation.
+   * @param response - The API response.
+   * @param expectation - What the request was expected to produce.
+   * @throws AppError with ErrorCategory.VALIDATION listing every failed matcher,
+   * or ErrorCategory.TIMEOUT if the request took longer than the budget.
+   */
+  public static validateExpectation(
+    response: AxiosResponse,
+    expectation: RequestExpectation,
+  ): void {
+    const { context } = expectation;
+
+    const mismatches = expectation.findBodyMismatches(response.data);
+    if (mismatches.length > 0) {
+      const errorMessage =
+        `Response body of [${context}] does not match the expectation ` +
+        `(${mismatches.length} mismatch(es)):\n  ${mismatches.join('\n  ')}`;
+      logger.error(errorMessage);
+      throw new AppError(ErrorCategory.VALIDATION, { context, mismatches }, errorMessage);
+    }
+
+    const { durationMs } = response.config ?? {};
+    if (durationMs !== undefined && expectation.exceedsLatency(durationMs)) {
+      const errorMessage = `Response of [${context}] took ${durationMs}ms, expected at most ${expectation.maxLatencyMs}ms`;
+      logger.error(errorMessage);
+      throw new AppError(
+        ErrorCategory.TIMEOUT,
+        { context, durationMs, maxLatencyMs: expectation.maxLatencyMs },
+        errorMessage,
+      );
+    }
+  }
+
+  /**
+   * Validates API responses for negative test flows where errors are expected.
+   * Handles various failure scenarios as successful test outcomes; the expectation's body
+   * matchers and latency budget still apply to any response.
+   * @param response - The API response.
+   * @param expectation - What the request was expected to produce.
    */
   public static validateNegativeTestResponse(
     response: AxiosResponse | null,
-    expectedStatusCode: number,
-    context: string,
+    expectation: RequestExpectation,
   ): void {
-    const isNegativeTest = RequestContext.isNegativeTest(context);
+    const { context, isNegative: isNegativeTest } = expectation;
 
     try {
       // For null responses in negative tests - consider test passed
@@ -62,13 +127,13 @@ export default class ApiResponseValidator {
       }
 
       // Assert response not null
-      const validatedResponse = this.assertResponseNotNull(response, context);
+      const validatedResponse = this.assertResponseNotNull(response, expectation);
 
       // Handle different validation logic based on test type
       if (isNegativeTest) {
-        this.handleNegativeTestResponse(validatedResponse.status, context);
-      } else if (validatedResponse.status !== expectedStatusCode) {
-        this.throwStatusCodeMismatchError(validatedResponse.status, expectedStatusCode, context);
+        this.handleNegativeTestResponse(validatedResponse.status, expectation);
+      } else if (!expectation.isExpectedStatus(validatedResponse.status)) {
+        this.throwStatusCodeMismatchError(validatedResponse.status, expectation);
       } else {
         logger.info(
           `Status Code Validation Successful in [${context}]: ${validatedResponse.status}`,
@@ -76,7 +141,7 @@ export default class ApiResponseValidator {
       }
     } catch (error) {
       // For negative tests, errors are generally expected
-      if (isNegativeTest && this.handleNegativeTestError(error, context)) {
+      if (isNegativeTest && this.handleNegativeTestError(error, expectation)) {
         return;
       }
 
@@ -88,6 +153,10 @@ export default class ApiResponseValidator {
       );
       throw error;
     }
+
+    if (response) {
+      this.validateExpectation(response, expectation);
+    }
   }
 
   /**
@@ -96,13 +165,14 @@ export default class ApiResponseValidator {
    */
   private static assertResponseNotNull(
     response: AxiosResponse | null,
-    context: string,
+    expectation: RequestExpectation,
   ): AxiosResponse {
+    const { context } = expectation;
+
     if (!response) {
       const errorMessage = `Received null response from [${context}].`;
-      const isNegativeTest = RequestContext.isNegativeTest(context);
 
-      if (isNegativeTest) {
+      if (expectation.isNegative) {
         logger.info(`Received null response as expected for negative test: ${context}`);
         throw new AppError(ErrorCategory.EXPECTED_FAILURE, { context }, errorMessage);
       }
@@ -114,32 +184,34 @@ export default class ApiResponseValidator {
   }
 
   /**
-   * Validates if the actual status code matches the expected status code.
-   * For negative tests, also checks if the status is in expected alternatives.
+   * Validates if the actual status code is one of the expected status codes.
+   * For negative tests, also accepts any error status.
    */
-  private static validateStatusCode(actual: number, expected: number, context: string): void {
-    const isNegativeTest = RequestContext.isNegativeTest(context);
+  private static validateStatusCode(actual: number, expectation: RequestExpectation): void {
+    const { context } = expectation;
 
     // Standard case - actual matches expected
-    if (actual === expected) {
+    if (!expectation.isNegative && expectation.isExpectedStatus(actual)) {
       logger.info(`Status Code Validation Successful in [${context}]: ${actual}`);
       return;
     }
 
     // For negative tests - check for expected alternative status
-    if (isNegativeTest && this.isValidNegativeTestStatus(actual, context)) {
+    if (expectation.isNegative && this.isValidNegativeTestStatus(actual, expectation)) {
       return;
     }
 
     // Status code mismatch - throw error
-    this.throwStatusCodeMismatchError(actual, expected, context);
+    this.throwStatusCodeMismatchError(actual, expectation);
   }
 
   /**
    * Handles a response in a negative test context.
    */
-  private static handleNegativeTestResponse(status: number, context: string): void {
-    if (this.isValidNegativeTestStatus(status, context)) {
+  private static handleNegativeTestResponse(status: number, expectation: RequestExpectation): void {
+    const { context } = expectation;
+
+    if (this.isValidNegativeTestStatus(status, expectation)) {
       return;
     }
 
@@ -155,9 +227,14 @@ export default class ApiResponseValidator {
   /**
    * Checks if a status code is valid for a negative test.
    */
-  private static isValidNegativeTestStatus(actual: number, context: string): boolean {
+  private static isValidNegativeTestStatus(
+    actual: number,
+    expectation: RequestExpectation,
+  ): boolean {
+    const { context } = expectation;
+
     // Case 1: Status is in explicitly expected alternatives
-    if (RequestContext.isExpectedStatus(context, actual)) {
+    if (expectation.isExpectedStatus(actual)) {
       logger.info(
         `Received alternative expected status code ${actual} for negative test: ${context}`,
       );
@@ -238,7 +315,9 @@ export default class ApiResponseValidator {
   /**
    * Handles error responses in a negative test context.
    */
-  private static handleNegativeTestError(error: unknown, context: string): boolean {
+  private static handleNegativeTestError(error: unknown, expectation: RequestExpectation): boolean {
+    const { context } = expectation;
+
     // Expected failure for negative test
     if (this.isExpectedNegativeTestFailure(error, context)) {
       return true;
@@ -247,7 +326,7 @@ export default class ApiResponseValidator {
     // Check if error has a response with an expected status code
     if (error instanceof AxiosError && error.response) {
       const status = error.response.status;
-      if (RequestContext.isExpectedStatus(context, status) || status >= 400) {
+      if (expectation.isExpectedStatus(status) || status >= 400) {
         logger.info(`Expected error response received in [${context}]: ${status}`);
         return true;
       }
@@ -267,11 +346,15 @@ export default class ApiResponseValidator {
    */
   private static throwStatusCodeMismatchError(
     actual: number,
-    expected: number,
-    context: string,
+    expectation: RequestExpectation,
   ): void {
-    const errorMessage = `Status code mismatch [${context}] - Expected: ${expected}, Received: ${actual}.`;
+    const { context } = expectation;
+    const errorMessage = `Status code mismatch [${context}] - Expected: ${expectation.describeStatuses()}, Received: ${actual}.`;
     logger.error(errorMessage);
-    throw new AppError(ErrorCategory.CONSTRAINT, { context }, errorMessage);
+    throw new AppError(
+      ErrorCategory.CONSTRAINT,
+      { context, expectedStatuses: expectation.expectedStatuses, actualStatus: actual },
+      errorMessage,
+    );
   }
 }
@@ -5,13 +5,10 @@ import { BookingMap } from '../../utils/dataStore/maps/bookingMaps';
 import { TEST_CONSTANTS } from '../../utils/dataStore/testIds/index';
 import {
   InvalidTokenResponse,
-  ValidTokenResponse,
   BookingResponse,
   Booking,
-  BookingDates,
+  BookingFilter,
 } from '../../models/api/booking.interface';
-import { BookingDateGenerator } from '../../testData/bookingDateGenerator';
-import * as bd from '../../testData/bookingData.json';
 import ErrorHandler from '../../utils/errors/errorHandler';
 import logger from '../../utils/logging/loggerManager';
 import ApiErrorResponseBuilder from '../../utils/errors/apiErrorResponseBuilder';
@@ -48,7 +45,7 @@ export default class BookingValidations {
   /**
    * Helper method to extract a property from an API response
    * @param response The Axios response object
-   * @param propertyName The name of the property to extract
+   * @param propertyName The name of the property to extract, or a dot path such as `booking.totalprice`
    * @param methodName The calling method name for error logging
    * @returns The extracted property value
    */
@@ -64,7 +61,7 @@ export default class BookingValidations {
         ErrorHandler.logAndThrow(`Invalid response format`, methodName);
       }
 
-      const propertyValue = data[propertyName];
+      const propertyValue = this.findPropertyInResponse(response, propertyName);
 
       if (propertyValue === undefined || propertyValue === null) {
         ErrorHandler.logAndThrow(`${propertyName} not found in response`, methodName);
@@ -81,6 +78,27 @@ export default class BookingValidations {
     }
   }
 
+  /**
+   * Looks up a property of the response body without failing, for callers that assert on it themselves.
+   * @param response The Axios response object
+   * @param propertyPath Dot path of the property, e.g. `booking.bookingdates.checkin` or `0.bookingid`
+   * @returns The property value, or undefined if the body or a part of the path is missing
+   */
+  public static findPropertyInResponse<T>(
+    response: AxiosResponse,
+    propertyPath: string,
+  ): T | undefined {
+    return propertyPath
+      .split('.')
+      .reduce<unknown>(
+        (current, key) =>
+          current !== null && typeof current === 'object'
+            ? (current as Record<string, unknown>)[key]
+            : undefined,
+        response?.data,
+      ) as T | undefined;
+  }
+
   /**
    * Validates the response from a failed token request due to invalid credentials.
    * Ensures the response contains the expected error structure and reason.
@@ -110,169 +128,63 @@ export default class BookingValidations {
   }
 
   /**
-   * Validates the response from a successful token request with valid credentials.
-   * Ensures the response contains a valid token.
-   *
-   * @param response - The Axios response object from the token request
-   */
-  public static validateValidTokenResponse(response: AxiosResponse): void {
-    try {
-      const methodName = 'validateValidTokenResponse';
-      const responseData = this.validateResponseData<ValidTokenResponse>(response, methodName);
-
-      expect(responseData.token, 'Expected a token to be present in the response').toBeDefined();
-      expect(typeof responseData.token).toBe('string');
-      expect(responseData.token.length).toBeGreaterThan(0);
-
-      logger.info('Successfully validated valid token response');
-    } catch (error) {
-      ErrorHandler.captureError(
-        error,
-        'validateValidTokenResponse',
-        'Failed to validate valid token response',
-      );
-      throw error;
-    }
-  }
-
-  /**
-   * Validates the response from getting all bookings.
-   * Ensures the response is an array where each item has a bookingid with a numeric value.
+   * Asserts that a booking returned by a filtered search matches the filter.
+   * Names must match exactly; checkin and checkout must be on or after the filter dates.
    *
-   * @param response - The Axios response object from the getAllBookings request
+   * @param response - The Axios response object from the getBookingById request
+   * @param bookingId - The id the search returned
+   * @param filter - The filter the search was made with
    */
-  public static validateGetAllBookingsResponse(response: AxiosResponse): void {
+  public static assertBookingMatchesFilter(
+    response: AxiosResponse,
+    bookingId: number,
+    filter: BookingFilter,
+  ): void {
     try {
-      const methodName = 'validateGetAllBookingsResponse';
-      const data = this.validateResponseData<Array<{ bookingid: number }>>(
-        response,
-        methodName,
-        'array',
-      );
-
-      data.forEach((booking, index) => {
-        if (!booking || typeof booking !== 'object') {
-          ErrorHandler.logAndThrow(`Item at index ${index} is not a valid object`, methodName);
-        }
+      const methodName = 'assertBookingMatchesFilter';
+      const booking = this.validateResponseData<Booking>(response, methodName);
 
-        expect(
-          booking.bookingid,
-          `Booking at index ${index} should have a bookingid`,
-        ).toBeDefined();
-        expect(typeof booking.bookingid, `Booking ID at index ${index} should be a number`).toBe(
-          'number',
+      if (filter.firstname !== undefined) {
+        expect(booking.firstname, `Booking ${bookingId} firstname should match the filter`).toBe(
+          filter.firstname,
+        );
+      }
+      if (filter.lastname !== undefined) {
+        expect(booking.lastname, `Booking ${bookingId} lastname should match the filter`).toBe(
+          filter.lastname,
         );
+      }
+      if (filter.checkin !== undefined) {
         expect(
-          Number.isInteger(booking.bookingid),
-          `Booking ID at index ${index} should be an integer`,
+          booking.bookingdates.checkin >= filter.checkin,
+          `Booking ${bookingId} checkin ${booking.bookingdates.checkin} should be on or after ${filter.checkin}`,
         ).toBe(true);
-      });
-
-      logger.info(`Successfully validated getAllBookings response with ${data.length} bookings`);
-    } catch (error) {
-      ErrorHandler.captureError(
-        error,
-        'validateGetAllBookingsResponse',
-        'Failed to validate getAllBookings response',
-      );
-      throw error;
-    }
-  }
-
-  public static validateNewlyCreatedBooking(response: AxiosResponse): void {
-    try {
-      const methodName = 'validateNewlyCreatedBooking';
-      const data = this.validateResponseData<BookingResponse>(response, methodName);
-
-      this.validateBookingId(data.bookingid);
-      this.validateBooking(data.booking);
-      logger.info(`Successfully validated newly created booking with ID: ${data.bookingid}`);
+      }
+      if (filter.checkout !== undefined) {
+        expect(
+          booking.bookingdates.checkout >= filter.checkout,
+          `Booking ${bookingId} checkout ${booking.bookingdates.checkout} should be on or after ${filter.checkout}`,
+        ).toBe(true);
+      }
     } catch (error) {
-      ErrorHandler.captureError(
+      ApiErrorResponseBuilder.captureApiError(
         error,
-        'validateNewlyCreatedBooking',
-        'Failed to validate newly created booking',
+        'assertBookingMatchesFilter',
+        `Booking ${bookingId} does not match the search filter.`,
       );
       throw error;
     }
   }
 
-  private static validateBookingId(bookingid: number): void {
-    expect(bookingid, 'bookingid should be defined').toBeDefined();
-    expect(typeof bookingid, 'bookingid should be a number').toBe('number');
-    expect(Number.isInteger(bookingid), 'bookingid should be an integer').toBe(true);
-  }
-
-  private static validateBooking(booking: Booking): void {
-    expect(booking, 'booking should be defined').toBeDefined();
-    expect(typeof booking, 'booking should be an object').toBe('object');
-    expect(booking, 'booking should not be empty').not.toEqual({});
-
-    expect(typeof booking.firstname, 'firstname should be a string').toBe('string');
-    expect(booking.firstname.length, 'firstname should not be empty').toBeGreaterThan(0);
-
-    expect(typeof booking.lastname, 'lastname should be a string').toBe('string');
-    expect(booking.lastname.length, 'lastname should not be empty').toBeGreaterThan(0);
-
-    expect(typeof booking.totalprice, 'totalprice should be a number').toBe('number');
-    expect(booking.totalprice).toBeGreaterThan(0);
-
-    expect(typeof booking.depositpaid, 'depositpaid should be a boolean').toBe('boolean');
-
-    this.validateBookingDates(booking.bookingdates);
-
-    if (booking.additionalneeds !== undefined) {
-      this.validateAdditionalNeeds(booking.additionalneeds);
-    }
-  }
-
-  private static validateBookingDates(bookingdates: BookingDates): void {
-    expect(bookingdates, 'bookingdates should be defined').toBeDefined();
-    expect(typeof bookingdates, 'bookingdates should be an object').toBe('object');
-    expect(bookingdates, 'bookingdates should not be empty').not.toEqual({});
-
-    expect(typeof bookingdates.checkin, 'checkin should be a string').toBe('string');
-    expect(new Date(bookingdates.checkin).toString()).not.toBe('Invalid Date');
-
-    expect(typeof bookingdates.checkout, 'checkout should be a string').toBe('string');
-    expect(new Date(bookingdates.checkout).toString()).not.toBe('Invalid Date');
-  }
-
-  private static validateAdditionalNeeds(additionalneeds: unknown): void {
-    expect(typeof additionalneeds, 'additionalneeds should be a string').toBe('string');
-  }
-
-  /**
-   * Validates the response from getting a booking by ID.
-   * Ensures the response contains valid booking details.
-   *
-   * @param response - The Axios response object from the getBookingById request
-   */
-  public static validateGetBookingByIdResponse(response: AxiosResponse): void {
-    try {
-      const methodName = 'validateGetBookingByIdResponse';
-      const data = this.validateResponseData<Booking>(response, methodName);
-
-      this.validateBooking(data);
-      logger.info('Successfully validated getBookingById response');
-    } catch (error) {
-      ErrorHandler.captureError(
-        error,
-        'validateGetBookingByIdResponse',
-        'Failed to validate getBookingById response',
-      );
-      throw error;
-    }
-  }
   public static async assertBookingDetailsMatchStoredResponse(
     response: AxiosResponse,
   ): Promise<void> {
     try {
-      const storedBookingResponse = TestDataStore.getValue(
+      const storedBookingResponse = (await TestDataStore.getValue(
         BookingMap.booking,
         TEST_CONSTANTS.TEST_IDS.bookingTestIds.STORE_BOOOKING_ID,
         'responseObject',
-      ) as unknown as BookingResponse;
+      )) as unknown as BookingResponse;
 
       if (!storedBookingResponse) {
         throw new Error('No stored booking response found for comparison.');
@@ -303,91 +215,71 @@ export default class BookingValidations {
     }
   }
 
-  public static assertUpdatedBookingDetailsMatchStoredResponse(response: AxiosResponse) {
+  /**
+   * Asserts that the booking in a response matches the payload the request was sent with.
+   *
+   * @param response - The Axios response object from the update or partial update request
+   * @param expected - The payload the request was sent with
+   * @param operation - What the request did, e.g. 'updated', used in the error message
+   */
+  public static assertBookingMatchesPayload(
+    response: AxiosResponse,
+    expected: Booking,
+    operation: string,
+  ): void {
     try {
-      // update booking payload
-      const updatedBookingPayload = this.updateBookingPayload();
-
       const responseData = response.data.booking ? response.data.booking : response.data;
 
-      expect(responseData.firstname).toBe(updatedBookingPayload.firstname);
-      expect(responseData.lastname).toBe(updatedBookingPayload.lastname);
-      expect(responseData.totalprice).toBe(updatedBookingPayload.totalprice);
-      expect(responseData.depositpaid).toBe(updatedBookingPayload.depositpaid);
-      expect(responseData.bookingdates.checkin).toBe(updatedBookingPayload.bookingdates.checkin);
-      expect(responseData.bookingdates.checkout).toBe(updatedBookingPayload.bookingdates.checkout);
-      expect(responseData.additionalneeds).toBe(updatedBookingPayload.additionalneeds);
+      expect(responseData.firstname).toBe(expected.firstname);
+      expect(responseData.lastname).toBe(expected.lastname);
+      expect(responseData.totalprice).toBe(expected.totalprice);
+      expect(responseData.depositpaid).toBe(expected.depositpaid);
+      expect(responseData.bookingdates.checkin).toBe(expected.bookingdates.checkin);
+      expect(responseData.bookingdates.checkout).toBe(expected.bookingdates.checkout);
+      expect(responseData.additionalneeds).toBe(expected.additionalneeds);
     } catch (error) {
       ApiErrorResponseBuilder.captureApiError(
         error,
-        'assertUpdatedBookingDetailsMatchStoredResponse',
-        'Failed to validate that updated booking details match the stored booking response.',
+        'assertBookingMatchesPayload',
+        `Failed to validate that the ${operation} booking details match the sent payload.`,
       );
       throw error;
     }
   }
 
-  private static updateBookingPayload(): typeof bd.Booking {
-    const payload = { ...bd.Booking };
-
-    payload.firstname = bd.FirstNames[3];
-    payload.lastname = bd.LastNames[7];
-
-    payload.totalprice = 1850;
-    payload.depositpaid = true;
-
-    const getDates = BookingDateGenerator.createBookingDatesfromCurrentDate(10);
-    payload.bookingdates.checkin = getDates.checkin;
-    payload.bookingdates.checkout = getDates.checkout;
-
-    payload.additionalneeds = bd.AdditionalNeeds[2];
-
-    return payload;
-  }
-
-  public static assertPartiallyUpdatedBookingDetailsMatchStoredResponse(response: AxiosResponse) {
+  /**
+   * Asserts the booking in the response has the expected values.
+   *
+   * @param response - Response carrying the booking, either as body or as its `booking` property
+   * @param expectedFields - Expected values keyed by dotted path, e.g. `bookingdates.checkin`
+   */
+  public static assertBookingHasFields(
+    response: AxiosResponse,
+    expectedFields: Record<string, unknown>,
+  ): void {
     try {
-      // partially update booking payload
-      const partiallyUpdatedBookingPayload = this.partiallyUpdateBookingPayload();
-
       const responseData = response.data.booking ? response.data.booking : response.data;
 
-      expect(responseData.firstname).toBe(partiallyUpdatedBookingPayload.firstname);
-      expect(responseData.lastname).toBe(partiallyUpdatedBookingPayload.lastname);
-      expect(responseData.totalprice).toBe(partiallyUpdatedBookingPayload.totalprice);
-      expect(responseData.depositpaid).toBe(partiallyUpdatedBookingPayload.depositpaid);
-      expect(responseData.bookingdates.checkin).toBe(
-        partiallyUpdatedBookingPayload.bookingdates.checkin,
-      );
-      expect(responseData.bookingdates.checkout).toBe(
-        partiallyUpdatedBookingPayload.bookingdates.checkout,
-      );
-      expect(responseData.additionalneeds).toBe(partiallyUpdatedBookingPayload.additionalneeds);
+      for (const [fieldPath, expectedValue] of Object.entries(expectedFields)) {
+        const actualValue = fieldPath
+          .split('.')
+          .reduce<unknown>(
+            (value, key) =>
+              value !== null && typeof value === 'object'
+                ? (value as Record<string, unknown>)[key]
+                : undefined,
+            responseData,
+          );
+
+        expect(actualValue, `Booking field '${fieldPath}' should match`).toEqual(expectedValue);
+      }
     } catch (error) {
       ApiErrorResponseBuilder.captureApiError(
         error,
-        'assertPartiallyUpdatedBookingDetailsMatchStoredResponse',
-        'Failed to validate that partially updated booking details match the stored booking response.',
+        'assertBookingHasFields',
+        'Failed to validate the expected booking fields.',
       );
       throw error;
     }
   }
-
-  private static partiallyUpdateBookingPayload() {
-    const payload = { ...bd.Booking };
-
-    payload.firstname = bd.FirstNames[5];
-    payload.lastname = bd.LastNames[7];
-
-    payload.totalprice = 920;
-    payload.depositpaid = true;
-
-    const getDates = BookingDateGenerator.createBookingDatesfromCurrentDate(3);
-    payload.bookingdates.checkin = getDates.checkin;
-    payload.bookingdates.checkout = getDates.checkout;
-
-    payload.additionalneeds = bd.AdditionalNeeds[0];
-
-    return payload;
-  }
 }
@@ -0,0 +1,288 @@
+import SchemaRegistry from '../schemas/schemaRegistry';
+import {
+  JSON_SCHEMA_PARAMS,
+  JsonSchema,
+  JsonSchemaType,
+  SchemaKeyword,
+  SchemaValidationOptions,
+  SchemaViolation,
+} from '../../models/api/jsonSchema.interface';
+import { ErrorCategory } from '../../models/utils/errorCategory.enum';
+import { AppError } from '../../utils/errors/AppError';
+
+type Report = (keyword: SchemaKeyword, message: string) => void;
+
+/**
+ * Validates values against the JsonSchema subset and reports every violation instead of stopping at the first.
+ */
+export default class JsonSchemaValidator {
+  private static readonly DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+  /**
+   * @param value - The value to validate, typically a parsed response body
+   * @param schema - The schema, or the `$id` of a registered schema
+   * @param options - How references are resolved and whether undeclared properties are reported
+   * @returns All violations; an empty array if the value matches
+   * @throws AppError with ErrorCategory.VALIDATION if the schema's references form a cycle.
+   */
+  public static validate(
+    value: unknown,
+    schema: JsonSchema | string,
+    options: SchemaValidationOptions = {},
+  ): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    this.validateValue(value, this.resolve(schema, options), '', violations, options);
+    return violations;
+  }
+
+  /**
+   * Formats violations as `path: message` lines.
+   */
+  public static format(violations: SchemaViolation[]): string[] {
+    return violations.map(({ path, message }) => `${path}: ${message}`);
+  }
+
+  /**
+   * Follows `$ref`s until a schema without one is reached.
+   *
+   * @throws AppError with ErrorCategory.VALIDATION if the references form a cycle.
+   */
+  private static resolve(
+    schema: JsonSchema | string,
+    options: SchemaValidationOptions,
+  ): JsonSchema {
+    const resolveRef = options.resolveRef ?? ((ref: string) => SchemaRegistry.get(ref));
+    const visited = typeof schema === 'string' ? [schema] : [];
+    let resolved = typeof schema === 'string' ? resolveRef(schema) : schema;
+
+    while (resolved.$ref) {
+      if (visited.includes(resolved.$ref)) {
+        const cycle = [...visited.slice(visited.indexOf(resolved.$ref)), resolved.$ref];
+        throw new AppError(
+          ErrorCategory.VALIDATION,
+          { cycle },
+          `Schema references form a cycle: ${cycle.join(' -> ')}`,
+        );
+      }
+
+      visited.push(resolved.$ref);
+      resolved = resolveRef(resolved.$ref);
+    }
+
+    return resolved;
+  }
+
+  private static validateValue(
+    value: unknown,
+    schema: JsonSchema,
+    path: string,
+    violations: SchemaViolation[],
+    options: SchemaValidationOptions,
+  ): void {
+    const report: Report = (keyword, message) =>
+      violations.push({ path: path || JSON_SCHEMA_PARAMS.ROOT_PATH, keyword, message });
+
+    if (schema.oneOf) {
+      this.validateOneOf(value, schema.oneOf, path, violations, options, report);
+    }
+
+    if (schema.type && !this.matchesType(value, schema.type)) {
+      report('type', this.describeExpectedType(schema, value));
+      return;
+    }
+
+    if (schema.enum && !schema.enum.some((allowed) => allowed === value)) {
+      report(
+        'enum',
+        `expected one of ${schema.enum.map((allowed) => JSON.stringify(allowed)).join(', ')}`,
+      );
+    }
+
+    if (typeof value === 'string') {
+      this.validateString(value, schema, report);
+    } else if (typeof value === 'number') {
+      this.validateNumber(value, schema, report);
+    } else if (Array.isArray(value)) {
+      this.validateArray(value, schema, path, violations, options, report);
+    } else if (value !== null && typeof value === 'object') {
+      this.validateObject(value as Record<string, unknown>, schema, path, violations, options);
+    }
+  }
+
+  /**
+   * Passes if any alternative matches. Otherwise reports the violations of the closest one,
+   * i.e. the one with the fewest violations, so the report points at what actually differs.
+   */
+  private static validateOneOf(
+    value: unknown,
+    alternatives: JsonSchema[],
+    path: string,
+    violations: SchemaViolation[],
+    options: SchemaValidationOptions,
+    report: Report,
+  ): void {
+    const results = alternatives.map((alternative) => {
+      const alternativeViolations: SchemaViolation[] = [];
+      this.validateValue(
+        value,
+        this.resolve(alternative, options),
+        path,
+        alternativeViolations,
+        options,
+      );
+      return alternativeViolations;
+    });
+
+    if (results.some((alternativeViolations) => alternativeViolations.length === 0)) {
+      return;
+    }
+
+    const closest = results.reduce((best, current) =>
+      current.length < best.length ? current : best,
+    );
+    report('oneOf', `matches none of ${alternatives.length} option(s)`);
+    violations.push(...closest);
+  }
+
+  private static validateString(value: string, schema: JsonSchema, report: Report): void {
+    if (schema.format && !this.matchesFormat(value, schema.format)) {
+      report('format', `expected ${schema.format} string, received '${value}'`);
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      report('minLength', `expected at least ${schema.minLength} character(s)`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      report('pattern', `expected string matching ${schema.pattern}`);
+    }
+  }
+
+  private static validateNumber(value: number, schema: JsonSchema, report: Report): void {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      report('minimum', `expected a number >= ${schema.minimum}, received ${value}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      report('maximum', `expected a number <= ${schema.maximum}, received ${value}`);
+    }
+  }
+
+  private static validateArray(
+    value: unknown[],
+    schema: JsonSchema,
+    path: string,
+    violations: SchemaViolation[],
+    options: SchemaValidationOptions,
+    report: Report,
+  ): void {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      report('minItems', `expected at least ${schema.minItems} item(s), received ${value.length}`);
+    }
+
+    if (schema.items) {
+      const itemSchema = this.resolve(schema.items, options);
+      value.forEach((item, index) =>
+        this.validateValue(item, itemSchema, `${path}[${index}]`, violations, options),
+      );
+    }
+  }
+
+  private static validateObject(
+    value: Record<string, unknown>,
+    schema: JsonSchema,
+    path: string,
+    violations: SchemaViolation[],
+    options: SchemaValidationOptions,
+  ): void {
+    const properties = schema.properties ?? {};
+    const childPath = (key: string) => (path ? `${path}.${key}` : key);
+
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        violations.push({ path: childPath(key), keyword: 'required', message: 'is required' });
+      }
+    }
+
+    // Only schemas that describe an object's shape can declare its properties
+    const disallowUndeclared =
+      schema.additionalProperties === false ||
+      (options.disallowUndeclaredProperties &&
+        schema.additionalProperties === undefined &&
+        schema.properties !== undefined);
+
+    for (const [key, propertyValue] of Object.entries(value)) {
+      const propertySchema = properties[key];
+
+      if (propertySchema) {
+        this.validateValue(
+          propertyValue,
+          this.resolve(propertySchema, options),
+          childPath(key),
+          violations,
+          options,
+        );
+      } else if (disallowUndeclared) {
+        violations.push({
+          path: childPath(key),
+          keyword: 'additionalProperties',
+          message: 'is not allowed',
+        });
+      } else if (typeof schema.additionalProperties === 'object') {
+        this.validateValue(
+          propertyValue,
+          this.resolve(schema.additionalProperties, options),
+          childPath(key),
+          violations,
+          options,
+        );
+      }
+    }
+  }
+
+  private static matchesType(value: unknown, type: JsonSchemaType | JsonSchemaType[]): boolean {
+    const types = Array.isArray(type) ? type : [type];
+    return types.some((candidate) => this.getType(value, candidate === 'integer') === candidate);
+  }
+
+  private static getType(value: unknown, distinguishIntegers: boolean): JsonSchemaType | string {
+    if (value === null) {
+      return 'null';
+    }
+    if (Array.isArray(value)) {
+      return 'array';
+    }
+    if (typeof value === 'number' && distinguishIntegers && Number.isInteger(value)) {
+      return 'integer';
+    }
+    return typeof value;
+  }
+
+  private static describeExpectedType(schema: JsonSchema, value: unknown): string {
+    const received = value === undefined ? 'undefined' : this.getType(value, false);
+    const expected = Array.isArray(schema.type) ? schema.type.join(' or ') : schema.type;
+
+    // A formatted string is described by its format, e.g. "expected date string"
+    if (expected === 'string' && schema.format) {
+      return `expected ${schema.format} string, received ${received}`;
+    }
+
+    return `expected ${expected}, received ${received}`;
+  }
+
+  private static matchesFormat(value: string, format: NonNullable<JsonSchema['format']>): boolean {
+    switch (format) {
+      case 'date':
+        return this.isValidDate(value);
+      case 'date-time':
+        return !Number.isNaN(Date.parse(value)) && value.includes('T');
+    }
+  }
+
+  private static isValidDate(value: string): boolean {
+    if (!this.DATE_PATTERN.test(value)) {
+      return false;
+    }
+
+    // Rejects dates that do not exist, e.g. 2024-02-30
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+  }
+}
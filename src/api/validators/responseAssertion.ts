@@ -0,0 +1,216 @@
+import { expect } from '@playwright/test';
+import { AxiosHeaders, AxiosResponse } from 'axios';
+import ApiResponseValidator from './apiResponseValidator';
+import BookingValidations from './bookingValidations';
+import SanitizationConfig from '../../utils/sanitization/sanitizationConfig';
+
+/**
+ * Fluent assertions on an AxiosResponse, built on Playwright's expect:
+ *
+ *   assertThat(response).hasStatus(200).hasHeader('content-type', /json/)
+ *     .body('booking.totalprice').isNumber().respondedWithin(500);
+ *
+ * Every assertion is titled with the request it checks. A failure message also shows the sanitised
+ * body, serialised only when an assertion fails; body comparisons run on sanitised copies, so
+ * Playwright's diff never reveals masked values.
+ */
+export class ResponseAssertion<T = unknown> {
+  private static readonly SOURCE = 'assertThat';
+
+  constructor(private readonly response: AxiosResponse<T>) {}
+
+  /**
+   * @param expected - The status code, or the status codes any of which is accepted
+   */
+  public hasStatus(expected: number | number[]): this {
+    const { status } = this.response;
+
+    return this.verify('status', (message) => {
+      if (Array.isArray(expected)) {
+        expect(expected, message).toContain(status);
+      } else {
+        expect(status, message).toBe(expected);
+      }
+    });
+  }
+
+  /**
+   * @param name - Header name, matched case-insensitively
+   * @param expected - Exact value or pattern the header must match; omit to only require the header
+   */
+  public hasHeader(name: string, expected?: string | RegExp): this {
+    const value = AxiosHeaders.from(this.response.headers as AxiosHeaders).get(name);
+
+    return this.verify(`header '${name}'`, (message) => {
+      expect(value, message).toBeDefined();
+      if (expected instanceof RegExp) {
+        expect(String(value), message).toMatch(expected);
+      } else if (expected !== undefined) {
+        expect(String(value), message).toBe(expected);
+      }
+    });
+  }
+
+  /**
+   * Requires ApiClient to have answered within the limit, retries included.
+   */
+  public respondedWithin(maxDurationMs: number): this {
+    const { durationMs } = this.response.config ?? {};
+
+    this.verify('duration (only measured by ApiClient)', (message) =>
+      expect(durationMs, message).toBeDefined(),
+    );
+    return this.verify('duration in ms', (message) =>
+      expect(durationMs, message).toBeLessThanOrEqual(maxDurationMs),
+    );
+  }
+
+  /**
+   * @param schemaId - The `$id` of the schema in SchemaRegistry
+   */
+  public matchesSchema(schemaId: string): this {
+    ApiResponseValidator.validateResponseSchema(this.response, schemaId, this.getRequestName());
+    return this;
+  }
+
+  /**
+   * Requires the body to equal the expected value, shown as a diff of the sanitised bodies.
+   */
+  public hasBody(expected: unknown): this {
+    return this.verify('body', (message) =>
+      expect(this.getSanitisedBody(), message).toEqual(SanitizationConfig.sanitizeData(expected)),
+    );
+  }
+
+  /**
+   * Requires the body to contain the expected properties, ignoring any others.
+   */
+  public bodyContains(expected: Record<string, unknown> | unknown[]): this {
+    BookingValidations.validateResponseData(
+      this.response,
+      ResponseAssertion.SOURCE,
+      Array.isArray(expected) ? 'array' : 'object',
+    );
+    return this.verify('body', (message) =>
+      expect(this.getSanitisedBody(), message).toMatchObject(
+        SanitizationConfig.sanitizeData(expected),
+      ),
+    );
+  }
+
+  /**
+   * Selects a property of the body for further assertions. The property must exist and not be null.
+   *
+   * @param path - Dot path of the property, e.g. `booking.totalprice` or `0.bookingid`
+   */
+  public body(path: string): BodyPropertyAssertion<T> {
+    const subject = `body property '${path}'`;
+    const value = BookingValidations.findPropertyInResponse<unknown>(this.response, path);
+
+    this.verify(subject, (message) => {
+      expect(value, message).toBeDefined();
+      expect(value, message).not.toBeNull();
+    });
+    return new BodyPropertyAssertion(value, (assertion) => this.verify(subject, assertion));
+  }
+
+  /**
+   * Runs Playwright assertions with a message naming the subject and the request. If one fails,
+   * the sanitised body is added to its error; it is not serialised for passing assertions.
+   */
+  private verify(subject: string, assertion: (message: string) => void): this {
+    try {
+      assertion(`${subject} of ${this.getRequestName()}`);
+    } catch (error) {
+      if (error instanceof Error) {
+        const { message } = error;
+        const body = JSON.stringify(this.getSanitisedBody(), null, 2) ?? String(this.response.data);
+        error.message = `${message}\n\nResponse body (sanitised):\n${body}`;
+        error.stack = error.stack?.replace(message, error.message);
+      }
+      throw error;
+    }
+    return this;
+  }
+
+  private getRequestName(): string {
+    const { config } = this.response;
+    return (
+      config?.expectation?.context ??
+      `${(config?.method ?? 'request').toUpperCase()} ${config?.url ?? ''}`.trim()
+    );
+  }
+
+  private getSanitisedBody(): unknown {
+    return SanitizationConfig.sanitizeData(this.response.data);
+  }
+}
+
+/**
+ * Assertions on one property of a response body. Each returns the response assertion,
+ * so the chain continues with the response.
+ */
+export class BodyPropertyAssertion<T = unknown> {
+  /**
+   * @param value - The property value
+   * @param verify - Runs assertions on the property the way the response assertion runs its own
+   */
+  constructor(
+    private readonly value: unknown,
+    private readonly verify: (assertion: (message: string) => void) => ResponseAssertion<T>,
+  ) {}
+
+  public equals(expected: unknown): ResponseAssertion<T> {
+    return this.verify((message) =>
+      expect(SanitizationConfig.sanitizeData(this.value), message).toEqual(
+        SanitizationConfig.sanitizeData(expected),
+      ),
+    );
+  }
+
+  public matches(pattern: RegExp): ResponseAssertion<T> {
+    return this.verify((message) => expect(String(this.value), message).toMatch(pattern));
+  }
+
+  public isNumber(): ResponseAssertion<T> {
+    return this.isOfType('number');
+  }
+
+  public isString(): ResponseAssertion<T> {
+    return this.isOfType('string');
+  }
+
+  public isBoolean(): ResponseAssertion<T> {
+    return this.isOfType('boolean');
+  }
+
+  public isArray(): ResponseAssertion<T> {
+    return this.verify((message) =>
+      expect(Array.isArray(this.value), `${message} should be an array`).toBe(true),
+    );
+  }
+
+  public isGreaterThan(minimum: number): ResponseAssertion<T> {
+    return this.verify((message) => expect(this.value, message).toBeGreaterThan(minimum));
+  }
+
+  /**
+   * Runs custom Playwright assertions on the property.
+   */
+  public satisfies(check: (value: unknown) => void): ResponseAssertion<T> {
+    return this.verify(() => check(this.value));
+  }
+
+  private isOfType(type: 'number' | 'string' | 'boolean'): ResponseAssertion<T> {
+    return this.verify((message) =>
+      expect(typeof this.value, `${message} should be a ${type}`).toBe(type),
+    );
+  }
+}
+
+/**
+ * Starts a chain of assertions on a response.
+ */
+export function assertThat<T>(response: AxiosResponse<T>): ResponseAssertion<T> {
+  return new ResponseAssertion(response);
+}
@@ -1,11 +1,47 @@
+import { EnvironmentResolver } from '../resolver/environmentResolver';
+import { FetchCIEnvironmentVariables } from '../resolver/fetchCIEnvironmentVariables';
+import { FetchLocalEnvironmentVariables } from '../resolver/fetchLocalEnvironmentVariables';
+import LeftoverResourceReport from '../../../api/cleanup/leftoverResourceReport';
+import { ApiClient } from '../../../api/client/apiClient';
+import { ApiBaseUrlBuilder } from '../../../api/endpoints/apiBaseUrlBuilder';
+import { BookingEndpointBuilder } from '../../../api/endpoints/bookingEndpointBuilder';
+import { HealthCheck } from '../../../api/services/healthCheck';
+import HealthCheckFlag from '../../../utils/environment/healthCheckFlag';
 import EnvironmentConfigLoader from '../../../utils/environment/utils/environmentConfigManager';
 import { EnvironmentSecretFileManager } from '../../../utils/environment/utils/environmentSecretFileManager';
 import ErrorHandler from '../../../utils/errors/errorHandler';
+import logger from '../../../utils/logging/loggerManager';
+
+/**
+ * Waits for the configured Restful Booker host to answer /ping, so an unreachable
+ * host aborts the run once instead of failing every test on its own.
+ */
+async function waitForApi(): Promise<void> {
+  if (HealthCheckFlag.shouldSkipHealthCheck()) {
+    logger.info('Skipping API health check');
+    return;
+  }
+
+  const apiBaseUrlBuilder = await ApiBaseUrlBuilder.create(
+    new EnvironmentResolver(
+      new FetchCIEnvironmentVariables(),
+      new FetchLocalEnvironmentVariables(),
+    ),
+  );
+  // The health check polls on its own schedule, so single pings are not retried
+  const apiClient = await ApiClient.create(apiBaseUrlBuilder, { retryPolicy: { maxAttempts: 1 } });
+  const healthCheck = new HealthCheck(apiClient, new BookingEndpointBuilder(apiBaseUrlBuilder));
+
+  await healthCheck.waitUntilHealthy();
+}
 
 async function globalSetup(): Promise<void> {
   try {
     const environmentConfigLoader = new EnvironmentConfigLoader(new EnvironmentSecretFileManager());
     await environmentConfigLoader.initialize();
+
+    await waitForApi();
+    await LeftoverResourceReport.reset();
   } catch (error) {
     ErrorHandler.captureError(error, 'globalSetup', 'Global setup failed');
     throw error;
@@ -0,0 +1,16 @@
+import LeftoverResourceReport from '../../../api/cleanup/leftoverResourceReport';
+import ErrorHandler from '../../../utils/errors/errorHandler';
+
+/**
+ * Reports the resources the tests created but their teardown could not delete.
+ */
+async function globalTeardown(): Promise<void> {
+  try {
+    await LeftoverResourceReport.report();
+  } catch (error) {
+    ErrorHandler.captureError(error, 'globalTeardown', 'Global teardown failed');
+    throw error;
+  }
+}
+
+export default globalTeardown;
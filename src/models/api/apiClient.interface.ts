@@ -0,0 +1,108 @@
+import { AxiosAdapter } from 'axios';
+import { AuthStrategy } from './authStrategy.interface';
+import { ExpectedOutcome } from './requestExpectation.interface';
+
+/**
+ * HTTP methods supported by ApiClient.
+ */
+export type HttpMethod = 'post' | 'put' | 'patch' | 'get' | 'delete';
+
+/**
+ * Configuration for retrying transient failures in ApiClient.
+ */
+export interface RetryPolicy {
+  /** Total number of attempts, including the first one (1 disables retries) */
+  maxAttempts: number;
+
+  /** Delay before the first retry; doubles on every further retry */
+  baseDelayMs: number;
+
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+
+  /** Fraction (0-1) of each delay that is randomised to spread out retries */
+  jitterRatio: number;
+
+  /** HTTP status codes that are considered transient */
+  retryableStatusCodes: number[];
+
+  /** Node/axios error codes that are considered transient (e.g. ECONNRESET) */
+  retryableErrorCodes: string[];
+
+  /** Methods that may be retried; non-idempotent methods are excluded by default */
+  retryableMethods: HttpMethod[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: Number(process.env.API_RETRY_MAX_ATTEMPTS) || 3,
+  baseDelayMs: Number(process.env.API_RETRY_BASE_DELAY_MS) || 200,
+  maxDelayMs: Number(process.env.API_RETRY_MAX_DELAY_MS) || 5_000,
+  jitterRatio: 0.5,
+  retryableStatusCodes: [408, 429, 502, 503, 504],
+  retryableErrorCodes: ['ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ECONNREFUSED'],
+  retryableMethods: ['get', 'put', 'delete'],
+};
+
+/**
+ * Configuration for the axios instance owned by ApiClient.
+ */
+export interface ApiClientOptions {
+  /** Base URL relative endpoints are resolved against */
+  baseUrl?: string;
+
+  /** Default request timeout in milliseconds (0 disables the timeout) */
+  timeoutMs: number;
+
+  /** Maximum request body size in bytes */
+  maxBodyLength: number;
+
+  /** Maximum response body size in bytes */
+  maxContentLength: number;
+
+  /** Overrides for DEFAULT_RETRY_POLICY */
+  retryPolicy?: Partial<RetryPolicy>;
+
+  /** Custom transport for the axios instance, e.g. the HAR replay adapter */
+  adapter?: AxiosAdapter;
+}
+
+/**
+ * Authorization of a request: a cookie string, a `Bearer ` value, a header object or an AuthStrategy.
+ */
+export type RequestAuthorization = string | { [key: string]: string } | AuthStrategy;
+
+/**
+ * Per-call overrides for a single ApiClient request.
+ */
+export interface RequestOptions {
+  /** Timeout in milliseconds for this request only */
+  timeoutMs?: number;
+
+  /** Headers applied over the default and authorization headers, e.g. a different Content-Type */
+  headers?: { [key: string]: string };
+
+  /** Body sent verbatim instead of the JSON-serialised payload, e.g. malformed JSON */
+  rawBody?: string;
+
+  /** What the request is expected to produce; carried on the config of its response or error */
+  expectation?: ExpectedOutcome;
+}
+
+export const DEFAULT_API_CLIENT_OPTIONS: ApiClientOptions = {
+  timeoutMs: Number(process.env.API_TIMEOUT_MS) || 30_000,
+  maxBodyLength: Number(process.env.API_MAX_BODY_LENGTH) || 10 * 1024 * 1024,
+  maxContentLength: Number(process.env.API_MAX_BODY_LENGTH) || 10 * 1024 * 1024,
+};
+
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /** Number of attempts ApiClient made before settling on this outcome */
+    attempts?: number;
+
+    /** Time ApiClient took to settle on this outcome, retries included */
+    durationMs?: number;
+
+    /** The expectation the request was sent with */
+    expectation?: ExpectedOutcome;
+  }
+}
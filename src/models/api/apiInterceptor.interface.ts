@@ -0,0 +1,52 @@
+import { AxiosResponse } from 'axios';
+import { HttpMethod } from './apiClient.interface';
+import { ExpectedOutcome } from './requestExpectation.interface';
+
+/**
+ * Mutable description of an outgoing ApiClient request, handed to every request hook.
+ */
+export interface ApiRequestContext {
+  method: HttpMethod;
+  endpoint: string;
+  headers: { [key: string]: string };
+  /** The payload, or the raw body string if the request sends one */
+  payload?: object | string;
+  timeoutMs: number;
+
+  /** Base URL of the client, which relative endpoints are resolved against */
+  baseUrl?: string;
+
+  /** What the request is expected to produce, if the caller declared it */
+  expectation?: ExpectedOutcome;
+
+  /** Scratch space shared by the hooks of a single request (e.g. start time, correlation ID) */
+  metadata: Record<string, unknown>;
+}
+
+/**
+ * A set of cross-cutting hooks applied to ApiClient requests.
+ *
+ * Request hooks run in ascending `order` before the request is sent and may mutate the context.
+ * Response hooks run in descending `order` once the final response is available,
+ * so the first interceptor to see a request is the last to see its response.
+ * Error hooks run in the same descending order when no response is available.
+ */
+export interface ApiInterceptor {
+  /** Unique name; registering another interceptor with the same name replaces it */
+  name: string;
+
+  /** Position in the chain, lower runs first on the way out (defaults to 0) */
+  order?: number;
+
+  onRequest?(request: ApiRequestContext): void | Promise<void>;
+
+  onResponse?(response: AxiosResponse, request: ApiRequestContext): void | Promise<void>;
+
+  /** Called in descending `order` when the request throws instead of producing a response (e.g. a timeout) */
+  onError?(error: unknown, request: ApiRequestContext): void | Promise<void>;
+}
+
+export const API_INTERCEPTOR_PARAMS = {
+  CORRELATION_ID_HEADER: process.env.API_CORRELATION_ID_HEADER || 'X-Correlation-ID',
+  SLOW_REQUEST_THRESHOLD_MS: Number(process.env.API_SLOW_REQUEST_THRESHOLD_MS) || 5_000,
+};
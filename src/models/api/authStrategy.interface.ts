@@ -0,0 +1,41 @@
+import { UserCredentials } from '../utils/userCredentials.interface';
+
+/**
+ * Ways ApiClient can authorise a request against Restful Booker.
+ */
+export type AuthStrategyName = 'cookie' | 'basic' | 'bearer';
+
+/**
+ * Produces the headers that authorise a request. Strategies can be passed wherever
+ * ApiClient accepts an authorization header.
+ */
+export interface AuthStrategy {
+  /** Identifies the strategy in logs and test titles */
+  readonly name: AuthStrategyName;
+
+  /** Resolves the headers to add to the request */
+  getHeaders(): Promise<{ [key: string]: string }>;
+
+  /**
+   * Called with the headers the API rejected with 403.
+   * Resolves to true if fresh credentials were obtained and the request is worth sending again.
+   */
+  refresh?(rejectedHeaders: { [key: string]: string }): Promise<boolean>;
+}
+
+/**
+ * Anything that can provide the API credentials, e.g. EnvironmentResolver.
+ */
+export interface CredentialsSource {
+  getTokenCredentials(): Promise<UserCredentials>;
+}
+
+export const AUTH_STRATEGY_PARAMS = {
+  STRATEGIES: ['cookie', 'basic', 'bearer'] as AuthStrategyName[],
+  // Strategies Restful Booker accepts on PUT, PATCH and DELETE
+  ACCEPTED_STRATEGIES: ['cookie', 'basic'] as AuthStrategyName[],
+  // Restful Booker answers requests with missing or stale credentials with 403 Forbidden
+  REJECTED_STATUS: 403,
+  // Placeholder for replay mode: authorization headers are masked in recordings
+  REPLAY_CREDENTIALS: { username: 'replay', password: 'replay' } as UserCredentials,
+};
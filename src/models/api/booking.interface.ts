@@ -1,26 +1,20 @@
-export interface InvalidTokenResponse {
-  reason: string;
-}
-
-export interface ValidTokenResponse {
-  token: string;
-}
-
-export interface BookingResponse {
-  bookingid: number;
-  booking: Booking;
-}
-
-export interface Booking {
-  firstname: string;
-  lastname: string;
-  totalprice: number;
-  depositpaid: boolean;
-  bookingdates: BookingDates;
-  additionalneeds: string;
-}
+// Generated from the API contract, see contracts/restfulBooker.openapi.json
+export type {
+  Booking,
+  BookingDates,
+  BookingIdentifier,
+  BookingResponse,
+  InvalidTokenResponse,
+  ValidTokenResponse,
+} from './generated/restfulBooker.types';
 
-export interface BookingDates {
-  checkin: string;
-  checkout: string;
+/**
+ * Query filters supported by GET /booking.
+ * Dates use the YYYY-MM-DD format and match bookings on or after the given date.
+ */
+export interface BookingFilter {
+  firstname?: string;
+  lastname?: string;
+  checkin?: string;
+  checkout?: string;
 }
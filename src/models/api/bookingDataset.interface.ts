@@ -0,0 +1,36 @@
+import { Booking } from './booking.interface';
+
+export type DatasetFormat = 'csv' | 'json' | 'yaml';
+
+/**
+ * One data-driven booking scenario: the payload to create, the status the API should answer with
+ * and the fields the created booking should have.
+ */
+export interface BookingDatasetRow {
+  title: string;
+
+  /** Grep tags such as `@smoke`; every row also carries DATASET_PARAMS.TAG */
+  tags: string[];
+  payload: Booking;
+  expectedStatus: number;
+
+  /** Values keyed by dotted path inside the created booking, e.g. `bookingdates.checkin` */
+  expectedFields: Record<string, unknown>;
+}
+
+export interface BookingDatasetOptions {
+  /** Column the test title is taken from; defaults to DATASET_PARAMS.TITLE_COLUMN */
+  titleColumn?: string;
+}
+
+export const DATASET_PARAMS = {
+  DIRECTORY: 'src/testData/datasets',
+  FORMATS: { '.csv': 'csv', '.json': 'json', '.yaml': 'yaml', '.yml': 'yaml' } as Record<
+    string,
+    DatasetFormat
+  >,
+  TITLE_COLUMN: 'title',
+  TAG: '@dataset',
+  // CSV headers such as `payload.bookingdates.checkin` are nested along their dots
+  PATH_SEPARATOR: '.',
+};
@@ -0,0 +1,24 @@
+import { WINSTON_LOGGER_PARAMS } from '../utils/winstonLogger.interface';
+
+interface BookingDateParameters {
+  /** Timezone "today" and all booking dates are calculated in (defaults to the logger timezone) */
+  TIME_ZONE: string;
+
+  /** Format of checkin and checkout dates */
+  DATE_FORMAT: string;
+
+  /** Day of the week weekend stays check in on (0 = Sunday ... 6 = Saturday) */
+  WEEKEND_CHECKIN_DAY: number;
+
+  /** Nights of a weekend stay */
+  WEEKEND_NIGHTS: number;
+}
+
+export const BOOKING_DATE_PARAMS: BookingDateParameters = {
+  TIME_ZONE: process.env.BOOKING_TIMEZONE || WINSTON_LOGGER_PARAMS.TIME_ZONE,
+  DATE_FORMAT: 'YYYY-MM-DD',
+
+  // Friday and Saturday night, checking out on Sunday
+  WEEKEND_CHECKIN_DAY: 5,
+  WEEKEND_NIGHTS: 2,
+};
@@ -0,0 +1,9 @@
+export const BOOKING_FACTORY_PARAMS = {
+  // Replays the bookings of an earlier run; the seed is logged when a test fails
+  SEED_VARIABLE: 'TEST_DATA_SEED',
+  MIN_PRICE: 100,
+  MAX_PRICE: 2000,
+  MAX_CHECKIN_DAYS_FROM_NOW: 30,
+  MIN_NIGHTS: 1,
+  MAX_NIGHTS: 14,
+};
@@ -0,0 +1,30 @@
+import { AuthStrategy } from './authStrategy.interface';
+import { Booking } from './booking.interface';
+
+/** What a flow knows before its first step */
+export type EmptyFlowContext = Record<never, never>;
+
+/** Added by BookingFlow.authenticate */
+export interface AuthenticatedFlowContext {
+  auth: AuthStrategy;
+}
+
+/** Added by BookingFlow.createBooking; `booking` follows every later update */
+export interface BookedFlowContext {
+  bookingId: number;
+  booking: Booking;
+}
+
+/**
+ * A value for a step, given directly or computed from the outputs of the earlier steps.
+ */
+export type FlowValue<C, T> = T | ((context: C) => T);
+
+/**
+ * One step of a flow. Its output is merged into the context the later steps receive.
+ */
+export interface FlowStep {
+  /** Title of the step's `test.step`; computed when the step runs, so it can name IDs */
+  describe: (context: object) => string;
+  run: (context: object) => Promise<object | void>;
+}
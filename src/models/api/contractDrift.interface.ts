@@ -0,0 +1,69 @@
+import { ResourceType } from '../../api/types/resourceTypes.type';
+
+/**
+ * How a response deviates from the contract:
+ * - undocumented-status: the status code is not among the operation's documented responses
+ * - missing-field: a required field is absent
+ * - extra-field: a field the schema does not declare is present
+ * - type-change: a field has a different type than documented
+ * - constraint-violation: a field has the documented type but breaks a format, range or length rule
+ * - request-failed: no response was received at all
+ */
+export type DriftKind =
+  | 'undocumented-status'
+  | 'missing-field'
+  | 'extra-field'
+  | 'type-change'
+  | 'constraint-violation'
+  | 'request-failed';
+
+export interface DriftFinding {
+  kind: DriftKind;
+
+  /** Dot/bracket path of the field inside the response body; absent for status and request findings */
+  path?: string;
+
+  message: string;
+}
+
+/**
+ * Outcome of calling one contract operation.
+ */
+export interface OperationDriftResult {
+  operationId: string;
+  method: string;
+  path: string;
+
+  /** Status code the API answered with; absent if the operation was skipped or failed */
+  status?: number;
+  documentedStatuses: string[];
+
+  /** Why the operation was not called, e.g. a path parameter no earlier response provided */
+  skipped?: string;
+  findings: DriftFinding[];
+}
+
+/**
+ * Machine-readable result of a contract-drift run.
+ */
+export interface ContractDriftReport {
+  contract: string;
+  contractVersion: string;
+  baseUrl: string;
+  checkedAt: string;
+  summary: {
+    operations: number;
+    skipped: number;
+    drifted: number;
+    findings: number;
+  };
+  operations: OperationDriftResult[];
+}
+
+export const CONTRACT_DRIFT_PARAMS = {
+  REPORT_PATH: process.env.CONTRACT_DRIFT_REPORT_PATH || 'contract-drift/drift-report.json',
+  RESPONSE_BODY_EXPRESSION: '$response.body#',
+  JSON_MEDIA_TYPE: 'application/json',
+  // Collection paths whose successful POST creates a resource, deleted again in the test's teardown
+  CREATED_RESOURCES: { '/booking': 'booking' } as Record<string, ResourceType>,
+};
@@ -0,0 +1,79 @@
+import { HttpMethod, RequestAuthorization } from './apiClient.interface';
+import { ResourceType } from '../../api/types/resourceTypes.type';
+
+/**
+ * The request generated inputs are sent as, e.g. the body of POST /booking.
+ */
+export interface FuzzTarget {
+  method: Exclude<HttpMethod, 'get' | 'delete'>;
+  endpoint: string;
+  authorization?: RequestAuthorization;
+
+  /** `$id` of the registered schema successful responses must match */
+  responseSchema?: string;
+
+  /** Resource a successful POST creates; it is tracked so the test's teardown deletes it */
+  createdResource?: ResourceType;
+}
+
+export interface FuzzOptions {
+  /** Number of generated inputs */
+  runs: number;
+
+  /** Seed of the generator; the same seed replays the same inputs */
+  seed?: number;
+
+  /** Upper bound on the requests spent shrinking a single failure */
+  maxShrinkAttempts: number;
+}
+
+export type FuzzStatusClass = '2xx' | '3xx' | '4xx' | '5xx' | 'no-response';
+
+/**
+ * Why a response counts as a failure:
+ * - server-error: the API answered 5xx
+ * - contract-violation: a successful response does not match the response schema
+ * - request-failed: no response was received, e.g. a timeout
+ */
+export type FuzzFailureKind = 'server-error' | 'contract-violation' | 'request-failed';
+
+export interface FuzzFailure<T> {
+  kind: FuzzFailureKind;
+
+  /** 1-based number of the run that found the failure */
+  run: number;
+  status?: number;
+  reason: string;
+
+  /** The generated input that failed */
+  input: T;
+
+  /** The simplest input that still fails the same way */
+  shrunkInput: T;
+  shrinkSteps: number;
+  shrinkAttempts: number;
+}
+
+export interface FuzzReport<T> {
+  target: string;
+  seed: number;
+  runs: number;
+
+  /** Number of responses per status class */
+  statusClasses: Partial<Record<FuzzStatusClass, number>>;
+
+  /** Number of runs that failed, of any kind */
+  failedRuns: number;
+
+  /** The first failure of every kind, shrunk */
+  failures: FuzzFailure<T>[];
+}
+
+export const FUZZ_PARAMS = {
+  SEED_VARIABLE: 'FUZZ_SEED',
+};
+
+export const DEFAULT_FUZZ_OPTIONS: FuzzOptions = {
+  runs: Number(process.env.FUZZ_RUNS) || 50,
+  maxShrinkAttempts: Number(process.env.FUZZ_MAX_SHRINK_ATTEMPTS) || 100,
+};
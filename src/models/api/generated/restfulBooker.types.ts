@@ -0,0 +1,49 @@
+// Generated from contracts/restfulBooker.openapi.json by ContractGenerator.
+// Do not edit by hand: change the contract and run `npm run generate:contract`.
+
+/** Body of POST /auth */
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+/** Response of POST /auth with valid credentials */
+export interface ValidTokenResponse {
+  token: string;
+}
+
+/** Response of POST /auth with invalid credentials */
+export interface InvalidTokenResponse {
+  reason: string;
+}
+
+/** Booking dates */
+export interface BookingDates {
+  /** YYYY-MM-DD */
+  checkin: string;
+  /** YYYY-MM-DD */
+  checkout: string;
+}
+
+export interface Booking {
+  firstname: string;
+  lastname: string;
+  totalprice: number;
+  depositpaid: boolean;
+  bookingdates: BookingDates;
+  additionalneeds?: string;
+}
+
+/** Response of POST /booking */
+export interface BookingResponse {
+  bookingid: number;
+  booking: Booking;
+}
+
+/** Element of the GET /booking response */
+export interface BookingIdentifier {
+  bookingid: number;
+}
+
+/** Response of GET /booking */
+export type BookingIdentifierList = BookingIdentifier[];
@@ -0,0 +1,24 @@
+/**
+ * Configuration for waiting on the Restful Booker API to become healthy.
+ */
+export interface HealthCheckOptions {
+  /** How long to keep pinging before giving up */
+  readinessTimeoutMs: number;
+
+  /** Delay between two pings */
+  pollIntervalMs: number;
+
+  /** Timeout of a single ping */
+  requestTimeoutMs: number;
+}
+
+export const DEFAULT_HEALTH_CHECK_OPTIONS: HealthCheckOptions = {
+  readinessTimeoutMs: Number(process.env.API_READINESS_TIMEOUT_MS) || 60_000,
+  pollIntervalMs: Number(process.env.API_HEALTH_CHECK_INTERVAL_MS) || 2_000,
+  requestTimeoutMs: Number(process.env.API_HEALTH_CHECK_REQUEST_TIMEOUT_MS) || 5_000,
+};
+
+export const HEALTH_CHECK_PARAMS = {
+  // Restful Booker answers a healthy /ping with 201 Created
+  HEALTHY_STATUS: 201,
+};
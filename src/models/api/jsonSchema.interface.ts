@@ -0,0 +1,83 @@
+export type JsonSchemaType =
+  | 'object'
+  | 'array'
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null';
+
+/**
+ * The subset of JSON Schema (draft 2020-12) understood by JsonSchemaValidator.
+ * `$ref` refers to another registered schema by its `$id`, unless the validator is given a resolver.
+ */
+export interface JsonSchema {
+  $id?: string;
+  $ref?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  oneOf?: JsonSchema[];
+
+  // Objects
+  properties?: { [property: string]: JsonSchema };
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+
+  // Arrays
+  items?: JsonSchema;
+  minItems?: number;
+
+  // Strings
+  format?: 'date' | 'date-time';
+  minLength?: number;
+  pattern?: string;
+
+  // Numbers
+  minimum?: number;
+  maximum?: number;
+}
+
+/**
+ * The schema keywords a value can violate.
+ */
+export type SchemaKeyword =
+  | 'type'
+  | 'enum'
+  | 'oneOf'
+  | 'required'
+  | 'additionalProperties'
+  | 'minItems'
+  | 'format'
+  | 'minLength'
+  | 'pattern'
+  | 'minimum'
+  | 'maximum';
+
+/**
+ * A single mismatch between a value and its schema.
+ */
+export interface SchemaViolation {
+  /** Dot/bracket path of the offending value, e.g. `booking.bookingdates.checkin` */
+  path: string;
+
+  /** The keyword the value violates */
+  keyword: SchemaKeyword;
+
+  /** What was expected, e.g. `expected date string` */
+  message: string;
+}
+
+export interface SchemaValidationOptions {
+  /** Resolves a `$ref`; defaults to looking the id up in SchemaRegistry */
+  resolveRef?: (ref: string) => JsonSchema;
+
+  /** Reports properties the schema does not declare, as if `additionalProperties` were false */
+  disallowUndeclaredProperties?: boolean;
+}
+
+export const JSON_SCHEMA_PARAMS = {
+  // Path reported for a mismatch of the value itself
+  ROOT_PATH: '(root)',
+};
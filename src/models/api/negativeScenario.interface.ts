@@ -0,0 +1,90 @@
+import { HttpMethod } from './apiClient.interface';
+import { ResourceOperation } from './resource.interface';
+import { BookingFactory } from '../../testData/factories/bookingFactory';
+
+/**
+ * The credentials a negative scenario sends:
+ * - none: no authorization at all
+ * - garbage-token: a `token` cookie that is not a token
+ * - expired-token: a well-formed `token` cookie the API does not (or no longer) accept
+ * - valid: a token issued by POST /auth
+ */
+export type NegativeScenarioAuthorization = 'none' | 'garbage-token' | 'expired-token' | 'valid';
+
+/**
+ * A request against /booking the API should reject, declared as data.
+ */
+export interface NegativeScenario {
+  /** Unique name; also the context of the scenario's RequestExpectation */
+  name: string;
+  operation: Exclude<ResourceOperation, 'list'>;
+  authorization: NegativeScenarioAuthorization;
+
+  /** Status codes that count as the API rejecting the request */
+  expectedStatuses: number[];
+
+  /**
+   * Booking the request targets: 'existing' creates a fresh booking first, anything else is used
+   * as the literal ID, e.g. 'abc'. Defaults to 'existing'; ignored by create.
+   */
+  bookingId?: 'existing' | string;
+
+  /** Builds the request body; evaluated when the scenario runs, after the clock is frozen */
+  payload?: (bookingFactory: BookingFactory) => object;
+
+  /** Body sent verbatim instead of the payload, e.g. malformed JSON */
+  rawBody?: string;
+
+  /** Headers applied over the defaults, e.g. a different Content-Type */
+  headers?: { [key: string]: string };
+
+  /** Why the API is known to accept the request; known gaps are reported but do not fail */
+  knownGap?: string;
+}
+
+/**
+ * How the API answered a negative scenario:
+ * - rejected: with one of the expected statuses
+ * - rejected-differently: with another 4xx status
+ * - accepted: with a 2xx or 3xx status
+ * - server-error: with a 5xx status
+ * - request-failed: not at all, e.g. a timeout
+ */
+export type NegativeScenarioOutcome =
+  | 'rejected'
+  | 'rejected-differently'
+  | 'accepted'
+  | 'server-error'
+  | 'request-failed';
+
+export interface NegativeScenarioResult {
+  name: string;
+  method: HttpMethod;
+  endpoint: string;
+  expectedStatuses: number[];
+  status?: number;
+  outcome: NegativeScenarioOutcome;
+  knownGap?: string;
+
+  /** Set for request-failed outcomes */
+  reason?: string;
+}
+
+export interface NegativeScenarioReport {
+  results: NegativeScenarioResult[];
+
+  /** Number of scenarios per outcome */
+  outcomes: Partial<Record<NegativeScenarioOutcome, number>>;
+
+  /** Scenarios that were not rejected as expected and are not known gaps */
+  unexpected: NegativeScenarioResult[];
+}
+
+export const NEGATIVE_SCENARIO_PARAMS = {
+  GARBAGE_TOKEN: process.env.NEGATIVE_GARBAGE_TOKEN || 'garbage-!@#$%^&*()',
+  // Same shape as an issued token (15 hex characters), but never issued by POST /auth
+  EXPIRED_TOKEN: process.env.NEGATIVE_EXPIRED_TOKEN || '0a1b2c3d4e5f6a7',
+  MALFORMED_JSON: '{"firstname": "Sally", "lastname": ',
+  NON_NUMERIC_ID: 'abc',
+  TEXT_CONTENT_TYPE: 'text/plain',
+};
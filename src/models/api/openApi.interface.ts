@@ -0,0 +1,75 @@
+import { JsonSchema } from './jsonSchema.interface';
+
+/**
+ * A schema in the contract. References use the OpenAPI form `#/components/schemas/<Name>`.
+ */
+export interface OpenApiSchema
+  extends Omit<JsonSchema, 'properties' | 'items' | 'additionalProperties' | 'oneOf'> {
+  properties?: { [property: string]: OpenApiSchema };
+  items?: OpenApiSchema;
+  additionalProperties?: boolean | OpenApiSchema;
+  oneOf?: OpenApiSchema[];
+  example?: unknown;
+
+  /** Emit a test-data template with `${property}` placeholders for this schema */
+  'x-template'?: boolean;
+}
+
+export interface OpenApiMediaType {
+  schema?: OpenApiSchema;
+}
+
+/**
+ * Passes values of a response to a later operation. Parameter values are runtime expressions
+ * of the form `$response.body#/<JSON pointer>`.
+ */
+export interface OpenApiLink {
+  operationId: string;
+  parameters?: { [parameter: string]: string };
+}
+
+export interface OpenApiResponse {
+  description: string;
+  content?: { [mediaType: string]: OpenApiMediaType };
+  links?: { [name: string]: OpenApiLink };
+}
+
+export interface OpenApiParameter {
+  name: string;
+  in: 'query' | 'path' | 'header' | 'cookie';
+  required?: boolean;
+  schema?: OpenApiSchema;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  parameters?: OpenApiParameter[];
+  requestBody?: { content: { [mediaType: string]: OpenApiMediaType } };
+  responses: { [statusCode: string]: OpenApiResponse };
+}
+
+export type OpenApiMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+
+export type OpenApiPathItem = { [method in OpenApiMethod]?: OpenApiOperation } & {
+  parameters?: OpenApiParameter[];
+};
+
+/**
+ * The subset of an OpenAPI 3.1 document the contract tooling reads.
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description?: string };
+  paths: { [path: string]: OpenApiPathItem };
+  components: { schemas: { [name: string]: OpenApiSchema } };
+}
+
+export const CONTRACT_PARAMS = {
+  CONTRACT_PATH: process.env.API_CONTRACT_PATH || 'contracts/restfulBooker.openapi.json',
+  SCHEMA_REF_PREFIX: '#/components/schemas/',
+  TYPES_OUTPUT: 'src/models/api/generated/restfulBooker.types.ts',
+  SCHEMAS_DIRECTORY: 'src/api/schemas',
+  SCHEMA_FILE_EXTENSION: '.schema.json',
+  SCHEMAS_INDEX: 'src/api/schemas/index.ts',
+  TEMPLATES_OUTPUT: 'src/testData/generated/restfulBooker.templates.json',
+};
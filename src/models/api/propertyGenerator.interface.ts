@@ -0,0 +1,26 @@
+import { SeededRandom } from '../../testData/random/seededRandom';
+
+/**
+ * A generated value together with the simpler values it can be shrunk to.
+ */
+export interface Shrinkable<T> {
+  value: T;
+
+  /** Simpler candidates, simplest first. Evaluated lazily, each one shrinkable in turn */
+  shrink: () => Iterable<Shrinkable<T>>;
+}
+
+/**
+ * Produces shrinkable values from a seeded random source.
+ */
+export interface PropertyGenerator<T> {
+  generate: (random: SeededRandom) => Shrinkable<T>;
+}
+
+export interface StringGeneratorOptions {
+  minLength?: number;
+  maxLength?: number;
+
+  /** Characters to draw from; multi code unit characters such as emoji are kept intact */
+  characters?: readonly string[];
+}
@@ -0,0 +1,55 @@
+/**
+ * A check on the body of a response, e.g. that it echoes a field of the request.
+ */
+export interface ResponseBodyMatcher {
+  /** Describes what the body must satisfy, in the error when it does not */
+  description: string;
+  matches: (body: unknown) => boolean;
+}
+
+/**
+ * Optional parts of a RequestExpectation, on top of its context and status codes.
+ */
+export interface RequestExpectationOptions {
+  /** Checks the response body must pass */
+  body?: ResponseBodyMatcher[];
+
+  /** Longest the request may take, retries included */
+  maxLatencyMs?: number;
+}
+
+/**
+ * What a single request is expected to produce, as ApiClient, its interceptors and the error
+ * handlers read it from the request and the axios config. Built with RequestExpectation.
+ */
+export interface ExpectedOutcome {
+  /** Names the request in logs and error reports */
+  readonly context: string;
+
+  /** Status codes the request may answer with */
+  readonly expectedStatuses: readonly number[];
+
+  /** Whether the request is expected to be rejected */
+  readonly isNegative: boolean;
+
+  readonly body: readonly ResponseBodyMatcher[];
+  readonly maxLatencyMs?: number;
+
+  isExpectedStatus(statusCode: number): boolean;
+
+  /** True if this is a negative expectation and the status is one it expects */
+  isExpectedRejection(statusCode: number): boolean;
+
+  /** The descriptions of the body matchers the body fails */
+  findBodyMismatches(body: unknown): string[];
+
+  exceedsLatency(durationMs: number): boolean;
+
+  /** Describes the expected statuses, e.g. `201` or `400 or 404` */
+  describeStatuses(): string;
+}
+
+export const REQUEST_EXPECTATION_PARAMS = {
+  // Latency budget of expectations that do not set their own, unlimited unless configured
+  MAX_LATENCY_MS: Number(process.env.API_MAX_LATENCY_MS) || undefined,
+};
@@ -0,0 +1,82 @@
+import { AxiosResponse } from 'axios';
+import { RequestAuthorization } from './apiClient.interface';
+import { RequestExpectationOptions } from './requestExpectation.interface';
+import { QueryParameters, ResourceType } from '../../api/types/resourceTypes.type';
+
+/**
+ * Operations a resource client can expose, mapped onto the REST verbs:
+ * list (GET collection), get (GET item), create (POST collection),
+ * replace (PUT item), patch (PATCH item) and delete (DELETE item).
+ */
+export type ResourceOperation = 'list' | 'get' | 'create' | 'replace' | 'patch' | 'delete';
+
+/**
+ * The types a resource exchanges with the API.
+ */
+export interface ResourceShape {
+  /** Returned by get, replace and patch */
+  entity: unknown;
+
+  /** Element of the list response */
+  listItem: unknown;
+
+  /** Returned by create */
+  created: unknown;
+
+  /** Body of create and replace; patch accepts any part of it */
+  payload: object;
+}
+
+/**
+ * Per-operation contract: the status a successful call answers with and how its body is validated.
+ */
+export interface ResourceOperationSchema<TResponse> {
+  /** Context key of the operation's RequestExpectation, used in validation and error reports */
+  context: string;
+
+  /** Status code of a successful call */
+  expectedStatus: number;
+
+  /** `$id` of the JSON schema in SchemaRegistry the response body must match */
+  responseSchema?: string;
+
+  /** Validates the response body after the status code and the schema have been checked */
+  validate?: (response: AxiosResponse<TResponse>) => void | Promise<void>;
+}
+
+export interface ResourceOperations<S extends ResourceShape> {
+  list: ResourceOperationSchema<S['listItem'][]>;
+  get: ResourceOperationSchema<S['entity']>;
+  create: ResourceOperationSchema<S['created']>;
+  replace: ResourceOperationSchema<S['entity']>;
+  patch: ResourceOperationSchema<S['entity']>;
+  delete: ResourceOperationSchema<unknown>;
+}
+
+/**
+ * Declaration of a Restful Booker resource. Only the declared operations can be called.
+ */
+export interface ResourceDefinition<S extends ResourceShape> {
+  resourceType: ResourceType;
+  operations: Partial<ResourceOperations<S>>;
+}
+
+/**
+ * Per-call inputs of a resource operation.
+ */
+export interface ResourceRequest<S extends ResourceShape> {
+  /** Identifier of the item, required by get, replace, patch and delete */
+  id?: number | string;
+
+  /** Request body for create, replace and patch */
+  payload?: S['payload'] | Partial<S['payload']>;
+
+  /** Query parameters, e.g. filters for list */
+  query?: QueryParameters;
+
+  /** Cookie token string, `Bearer ` value, header object or AuthStrategy, as accepted by ApiClient */
+  authorization?: RequestAuthorization;
+
+  /** Body matchers and latency budget added to the operation's expectation */
+  expect?: RequestExpectationOptions;
+}
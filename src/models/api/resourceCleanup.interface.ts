@@ -0,0 +1,38 @@
+import { ResourceType } from '../../api/types/resourceTypes.type';
+
+/**
+ * A resource a test created on the server and that is deleted when the test ends.
+ */
+export interface TrackedResource {
+  resourceType: ResourceType;
+  id: number | string;
+
+  /** Title of the test that created the resource */
+  testTitle: string;
+  createdAt: string;
+}
+
+/**
+ * A tracked resource the teardown could not delete.
+ */
+export interface LeftoverResource extends TrackedResource {
+  /** Status of the failed DELETE, if the API answered */
+  status?: number;
+  reason: string;
+}
+
+export interface CleanupResult {
+  deleted: TrackedResource[];
+
+  /** Deleted by the test itself or by someone else, answered with a GONE_STATUSES status */
+  alreadyGone: TrackedResource[];
+  leftovers: LeftoverResource[];
+}
+
+export const RESOURCE_CLEANUP_PARAMS = {
+  DELETED_STATUSES: [200, 201, 204],
+  // Restful Booker answers 405 instead of 404 when deleting a booking that does not exist
+  GONE_STATUSES: [404, 405],
+  LEFTOVERS_PATH: process.env.RESOURCE_LEFTOVERS_PATH || 'cleanup-report/leftovers.json',
+  LEFTOVERS_NAMESPACE: 'leftovers',
+};
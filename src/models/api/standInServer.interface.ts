@@ -0,0 +1,39 @@
+import { UserCredentials } from '../utils/userCredentials.interface';
+
+/**
+ * Options for starting the local Restful Booker stand-in server.
+ */
+export interface StandInServerOptions {
+  /** Host interface to bind to (default: 127.0.0.1) */
+  host?: string;
+
+  /** Port to listen on; 0 lets the OS pick a free port (default: 0) */
+  port?: number;
+
+  /** Credentials accepted by POST /auth and by Basic authorization */
+  credentials?: UserCredentials;
+}
+
+interface StandInServerParameters {
+  /** Default host interface */
+  HOST: string;
+
+  /** Default port (0 = ephemeral) */
+  PORT: number;
+
+  /** Credentials the public Restful Booker demo accepts */
+  DEFAULT_CREDENTIALS: UserCredentials;
+
+  /** Length of generated auth tokens (Restful Booker issues 15 hex characters) */
+  TOKEN_LENGTH: number;
+}
+
+export const STAND_IN_SERVER_PARAMS: StandInServerParameters = {
+  HOST: process.env.STAND_IN_SERVER_HOST || '127.0.0.1',
+  PORT: Number(process.env.STAND_IN_SERVER_PORT) || 0,
+  DEFAULT_CREDENTIALS: {
+    username: 'admin',
+    password: 'password123',
+  },
+  TOKEN_LENGTH: 15,
+};
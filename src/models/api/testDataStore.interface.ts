@@ -0,0 +1,50 @@
+/**
+ * Where TestDataStore keeps its data:
+ * - memory: in the worker process, lost when the worker exits
+ * - file: in a JSON file shared by every worker and kept between runs
+ */
+export type TestDataStoreMode = 'memory' | 'file';
+
+/** The data stored for one test ID */
+export type TestDataRecord = Record<string, unknown>;
+
+/**
+ * Storage of test data records, grouped into namespaces (one per TestDataMap).
+ * Implementations copy records in and out, so callers never share references with the store.
+ */
+export interface TestDataStoreBackend {
+  readonly mode: TestDataStoreMode;
+
+  get(namespace: string, testId: string): Promise<TestDataRecord | undefined>;
+
+  /**
+   * @returns Every record of the namespace, keyed by test ID
+   */
+  list(namespace: string): Promise<Record<string, TestDataRecord>>;
+
+  /**
+   * Replaces a record with the result of `update`, as one atomic step across workers.
+   * @returns The stored record
+   */
+  update(
+    namespace: string,
+    testId: string,
+    update: (current: TestDataRecord | undefined) => TestDataRecord,
+  ): Promise<TestDataRecord>;
+
+  /**
+   * @returns True if a record was removed
+   */
+  delete(namespace: string, testId: string): Promise<boolean>;
+
+  /** Removes every record of the namespace, or of all namespaces */
+  clear(namespace?: string): Promise<void>;
+}
+
+export const TEST_DATA_STORE_PARAMS = {
+  FILE_PATH: process.env.TEST_DATA_STORE_PATH || '.test-data-store/store.json',
+  LOCK_TIMEOUT_MS: Number(process.env.TEST_DATA_STORE_LOCK_TIMEOUT_MS) || 10_000,
+  LOCK_RETRY_DELAY_MS: 25,
+  // A lock older than this is left over from a crashed worker and is broken
+  STALE_LOCK_MS: Number(process.env.TEST_DATA_STORE_STALE_LOCK_MS) || 30_000,
+};
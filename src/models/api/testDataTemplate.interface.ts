@@ -0,0 +1,34 @@
+/**
+ * Values `${name}` placeholders resolve to. Nested values are reached with dotted names,
+ * e.g. `${guest.firstname}`.
+ */
+export type TemplateContext = Record<string, unknown>;
+
+/**
+ * Functions `${random.<name>}` placeholders resolve to, called once per placeholder.
+ */
+export type TemplateGenerators = Record<string, () => unknown>;
+
+/**
+ * Where a template comes from; reported when one of its placeholders cannot be resolved.
+ */
+export interface TemplateSource {
+  file: string;
+
+  /** Dot/bracket path of the template inside the file; absent if the whole file is the template */
+  path?: string;
+}
+
+export interface UnresolvedPlaceholder {
+  path: string;
+  placeholder: string;
+  reason: string;
+}
+
+export const TEMPLATE_PARAMS = {
+  PLACEHOLDER_PATTERN: /\$\{([^}]*)\}/g,
+  ENVIRONMENT_PREFIX: 'env.',
+  GENERATOR_PREFIX: 'random.',
+  // `today`, `today+4d` or `today-2d`
+  DATE_EXPRESSION_PATTERN: /^today(?:([+-])(\d+)d)?$/,
+};
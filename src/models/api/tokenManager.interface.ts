@@ -0,0 +1,11 @@
+/**
+ * Anything that can obtain a fresh authentication token, e.g. AuthenticationToken.
+ */
+export interface TokenSource {
+  requestToken(): Promise<string>;
+}
+
+export const TOKEN_MANAGER_PARAMS = {
+  // A token rejected before this age is assumed to be rejected for another reason than its age
+  MAX_TOKEN_AGE_MS: Number(process.env.TOKEN_MAX_AGE_MS) || 10 * 60 * 1_000,
+};
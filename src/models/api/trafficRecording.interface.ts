@@ -0,0 +1,106 @@
+/**
+ * A single sanitised ApiClient exchange as captured by the traffic recorder.
+ */
+export interface RecordedExchange {
+  startedDateTime: string;
+  durationMs: number;
+  attempts?: number;
+  correlationId?: string;
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, unknown>;
+    body?: unknown;
+  };
+  response?: {
+    status: number;
+    statusText: string;
+    headers: Record<string, unknown>;
+    body?: unknown;
+  };
+  /** Message of the error the request failed with when no response was received */
+  error?: string;
+}
+
+export interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+/**
+ * Subset of the HAR 1.2 entry format produced from recorded exchanges.
+ * Custom fields are prefixed with an underscore as the specification requires.
+ */
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    headers: HarNameValue[];
+    queryString: HarNameValue[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    headers: HarNameValue[];
+    content: { size: number; mimeType: string; text?: string };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+  };
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  _attempts?: number;
+  _correlationId?: string;
+  _error?: string;
+}
+
+export interface HarLog {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+    /** Time the recording started; replay freezes the clock here so date-based test data matches */
+    _recordedAt?: string;
+    /** Seed of the test's generated data; replay reuses it so the same payloads are sent */
+    _testDataSeed?: number;
+  };
+}
+
+/**
+ * When the recorded traffic is attached to the Playwright report:
+ * - always: for every test that sent at least one request
+ * - on-failure: only for tests that did not end with their expected status
+ * - never: recording stays in memory only
+ */
+export type TrafficAttachmentPolicy = 'always' | 'on-failure' | 'never';
+
+export const TRAFFIC_RECORDER_PARAMS = {
+  ATTACHMENT_POLICY: (process.env.API_TRAFFIC_ATTACHMENT || 'always') as TrafficAttachmentPolicy,
+  ATTACHMENT_NAME: 'api-traffic.har',
+  HAR_VERSION: '1.2',
+  HAR_CREATOR: { name: 'restful-booker-api-automation', version: '1.0.0' },
+};
+
+/**
+ * How ApiClient traffic is handled:
+ * - live: requests go to the configured host
+ * - record: requests go to the configured host and each test's exchanges are saved as a HAR file
+ * - replay: requests are answered from the saved HAR files without any network access
+ */
+export type ApiTrafficMode = 'live' | 'record' | 'replay';
+
+export const HAR_RECORDING_PARAMS = {
+  DIRECTORY: process.env.API_RECORDINGS_DIR || 'recordings',
+  FILE_EXTENSION: '.har',
+  // Never contacted; replay matches on method, path and body, not on host
+  REPLAY_BASE_URL: 'http://replay.invalid',
+  // Tokens are masked in recordings, so replayed requests send a placeholder
+  REPLAY_TOKEN: 'replayed-token',
+};
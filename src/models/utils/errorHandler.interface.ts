@@ -27,15 +27,6 @@ export interface PlaywrightMatcherResult {
   log?: string[];
 }
 
-/**
- * Configuration for request expectations
- */
-export interface RequestExpectation {
-  expectedStatusCodes: number[];
-  expectedCategories?: ErrorCategory[];
-  isNegativeTest: boolean;
-}
-
 /**
  * Interface representing an error with AppError-like properties
  */
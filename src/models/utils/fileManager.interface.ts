@@ -14,4 +14,17 @@ export interface FileOperationOptions {
   throwOnError?: boolean;
   overwrite?: boolean;
   createParentDirs?: boolean;
-}
\ No newline at end of file
+}
+/**
+ * Options for FileLock
+ */
+export interface FileLockOptions {
+  /** How long to wait for the lock before giving up */
+  timeoutMs: number;
+
+  /** Delay between attempts to take the lock */
+  retryDelayMs: number;
+
+  /** Age after which a lock counts as left over from a crashed process */
+  staleMs: number;
+}
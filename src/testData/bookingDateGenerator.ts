@@ -1,13 +1,25 @@
+import moment, { Moment } from 'moment-timezone';
+import { BOOKING_DATE_PARAMS } from '../models/api/bookingDates.interface';
+import { BookingDates } from '../models/api/booking.interface';
 import ErrorHandler from '../utils/errors/errorHandler';
+import Clock from '../utils/time/clock';
 
+/**
+ * Creates checkin and checkout dates as 'YYYY-MM-DD'. "Today" is the calendar date in
+ * BOOKING_DATE_PARAMS.TIME_ZONE at Clock.now(), and days are added as calendar days, so the dates
+ * do not shift around midnight UTC or daylight saving changes. Freeze the Clock for fixed dates,
+ * and pin the timezone with useTimeZone to make them independent of the environment.
+ */
 export class BookingDateGenerator {
+  private static pinnedTimeZone: string | null = null;
+
   /**
-   * Format a date as 'YYYY-MM-DD'
+   * Format a date as 'YYYY-MM-DD' in the booking timezone
    * @param date The date to format
    * @returns Formatted date string
    */
-  private static formatYYYYMMDD(date: Date): string {
-    return date.toISOString().split('T')[0]; // returns 'YYYY-MM-DD'
+  private static formatYYYYMMDD(date: Date | Moment): string {
+    return moment.tz(date, this.getTimeZone()).format(BOOKING_DATE_PARAMS.DATE_FORMAT);
   }
 
   /**
@@ -15,23 +27,20 @@ export class BookingDateGenerator {
    * @returns Today's date as string
    */
   static getToday(): string {
-    return this.formatYYYYMMDD(new Date());
+    return this.formatYYYYMMDD(this.today());
   }
 
-  static createBookingDatesfromCurrentDate(checkoutDaysFromCheckin: number = 1): {
-    checkin: string;
-    checkout: string;
-  } {
-    const today = new Date();
-    const checkinDate = new Date(today.getTime());
-    const checkoutDate = new Date(
-      checkinDate.getTime() + checkoutDaysFromCheckin * 24 * 60 * 60 * 1000,
-    );
+  /**
+   * Get the date a number of days from today as 'YYYY-MM-DD'
+   * @param days Days from today (can be negative for past dates)
+   * @returns The date as string
+   */
+  static getDateFromToday(days: number): string {
+    return this.formatYYYYMMDD(this.today().add(days, 'days'));
+  }
 
-    return {
-      checkin: this.formatYYYYMMDD(checkinDate),
-      checkout: this.formatYYYYMMDD(checkoutDate),
-    };
+  static createBookingDatesfromCurrentDate(checkoutDaysFromCheckin: number = 1): BookingDates {
+    return this.createStay(this.today(), checkoutDaysFromCheckin);
   }
 
   /**
@@ -43,17 +52,8 @@ export class BookingDateGenerator {
   static createBookingDates(
     checkinDaysFromNow: number = 0,
     checkoutDaysFromCheckin: number = 1,
-  ): { checkin: string; checkout: string } {
-    const today = new Date();
-    const checkinDate = new Date(today.getTime() + checkinDaysFromNow * 24 * 60 * 60 * 1000);
-    const checkoutDate = new Date(
-      checkinDate.getTime() + checkoutDaysFromCheckin * 24 * 60 * 60 * 1000,
-    );
-
-    return {
-      checkin: this.formatYYYYMMDD(checkinDate),
-      checkout: this.formatYYYYMMDD(checkoutDate),
-    };
+  ): BookingDates {
+    return this.createStay(this.today().add(checkinDaysFromNow, 'days'), checkoutDaysFromCheckin);
   }
 
   /**
@@ -62,10 +62,7 @@ export class BookingDateGenerator {
    * @param checkoutDate Specific checkout date
    * @returns Booking dates object with checkin and checkout fields
    */
-  static createSpecificBookingDates(
-    checkinDate: Date,
-    checkoutDate: Date,
-  ): { checkin: string; checkout: string } {
+  static createSpecificBookingDates(checkinDate: Date, checkoutDate: Date): BookingDates {
     if (checkoutDate < checkinDate) {
       ErrorHandler.logAndThrow(
         'Checkout date must be after checkin date',
@@ -78,4 +75,159 @@ export class BookingDateGenerator {
       checkout: this.formatYYYYMMDD(checkoutDate),
     };
   }
+
+  /**
+   * Create a stay that checks in and out on the same day
+   * @param daysFromNow Days from now for the stay (can be negative for past dates)
+   * @returns Booking dates object with equal checkin and checkout
+   */
+  static createSameDayStay(daysFromNow: number = 0): BookingDates {
+    return this.createBookingDates(daysFromNow, 0);
+  }
+
+  /**
+   * Create a stay that is already over
+   * @param checkoutDaysAgo Days between checkout and today
+   * @param nights Nights of the stay
+   * @returns Booking dates object with both dates in the past
+   */
+  static createPastStay(checkoutDaysAgo: number = 1, nights: number = 1): BookingDates {
+    if (checkoutDaysAgo < 1 || nights < 0) {
+      ErrorHandler.logAndThrow(
+        'A past stay needs a checkout at least one day ago and no negative nights',
+        'createPastStay',
+      );
+    }
+
+    return this.createBookingDates(-checkoutDaysAgo - nights, nights);
+  }
+
+  /**
+   * Create a stay over the weekend: checkin on the next BOOKING_DATE_PARAMS.WEEKEND_CHECKIN_DAY
+   * (today included), checkout after BOOKING_DATE_PARAMS.WEEKEND_NIGHTS nights
+   * @param weeksFromNow Weekends to skip
+   * @returns Booking dates object covering only weekend nights
+   */
+  static createWeekendStay(weeksFromNow: number = 0): BookingDates {
+    const today = this.today();
+    const daysUntilCheckin = (BOOKING_DATE_PARAMS.WEEKEND_CHECKIN_DAY - today.day() + 7) % 7;
+
+    return this.createStay(
+      today.add(daysUntilCheckin + weeksFromNow * 7, 'days'),
+      BOOKING_DATE_PARAMS.WEEKEND_NIGHTS,
+    );
+  }
+
+  /**
+   * Create a stay across the next turn of a month that does not start in the past
+   * @param nightsBefore Nights before the first of the month
+   * @param nightsAfter Nights from the first of the month on
+   * @returns Booking dates around the next first of a month whose checkin is not in the past
+   */
+  static createMonthBoundaryStay(nightsBefore: number = 1, nightsAfter: number = 1): BookingDates {
+    return this.createStayAround(
+      (index) =>
+        this.today()
+          .startOf('month')
+          .add(index + 1, 'months'),
+      nightsBefore,
+      nightsAfter,
+    );
+  }
+
+  /**
+   * Create a stay across the next New Year that does not start in the past
+   * @param nightsBefore Nights before the first of January
+   * @param nightsAfter Nights from the first of January on
+   * @returns Booking dates around the next New Year whose checkin is not in the past
+   */
+  static createYearBoundaryStay(nightsBefore: number = 1, nightsAfter: number = 1): BookingDates {
+    return this.createStayAround(
+      (index) =>
+        this.today()
+          .startOf('year')
+          .add(index + 1, 'years'),
+      nightsBefore,
+      nightsAfter,
+    );
+  }
+
+  /**
+   * Create a stay over the next 29 February that does not start in the past
+   * @param nightsBefore Nights before the leap day
+   * @param nightsAfter Nights from the leap day on, at least one
+   * @returns Booking dates object including the night of 29 February
+   */
+  static createLeapDayStay(nightsBefore: number = 1, nightsAfter: number = 1): BookingDates {
+    return this.createStayAround(
+      (index) => {
+        const year = this.today().year() + index;
+        return moment([year]).isLeapYear()
+          ? moment.tz([year, 1, 29], this.getTimeZone())
+          : undefined;
+      },
+      nightsBefore,
+      Math.max(nightsAfter, 1),
+    );
+  }
+
+  /**
+   * Calculates dates in the given timezone instead of BOOKING_DATE_PARAMS.TIME_ZONE until
+   * resetTimeZone() is called.
+   * @param timeZone IANA timezone name, e.g. Pacific/Auckland
+   */
+  static useTimeZone(timeZone: string): void {
+    this.pinnedTimeZone = timeZone;
+  }
+
+  static resetTimeZone(): void {
+    this.pinnedTimeZone = null;
+  }
+
+  private static today(): Moment {
+    return moment.tz(Clock.now(), this.getTimeZone()).startOf('day');
+  }
+
+  private static createStay(checkin: Moment, nights: number): BookingDates {
+    return {
+      checkin: this.formatYYYYMMDD(checkin),
+      checkout: this.formatYYYYMMDD(checkin.clone().add(nights, 'days')),
+    };
+  }
+
+  /**
+   * Uses the first boundary the stay can check in around without checking in before today.
+   * @param getBoundary Returns a candidate boundary per index, in date order, or undefined to skip
+   */
+  private static createStayAround(
+    getBoundary: (index: number) => Moment | undefined,
+    nightsBefore: number,
+    nightsAfter: number,
+  ): BookingDates {
+    const today = this.today();
+
+    for (let index = 0; ; index++) {
+      const checkin = getBoundary(index)?.subtract(nightsBefore, 'days');
+      if (checkin && !checkin.isBefore(today)) {
+        return this.createStay(checkin, nightsBefore + nightsAfter);
+      }
+    }
+  }
+
+  /**
+   * @throws Will throw an error if the pinned or configured timezone is unknown.
+   */
+  private static getTimeZone(): string {
+    const timeZone = this.pinnedTimeZone ?? BOOKING_DATE_PARAMS.TIME_ZONE;
+
+    if (!moment.tz.zone(timeZone)) {
+      ErrorHandler.logAndThrow(
+        `Unknown booking timezone '${timeZone}'. Set BOOKING_TIMEZONE or APP_TIMEZONE ` +
+          'to an IANA name such as Europe/London',
+        'getTimeZone',
+      );
+    }
+
+    return timeZone;
+  }
 }
@@ -0,0 +1,84 @@
+import { BOOKING_FACTORY_PARAMS } from '../../models/api/bookingFactory.interface';
+import { Booking, BookingDates } from '../../models/api/booking.interface';
+import * as bd from '../bookingData.json';
+import { BookingDateGenerator } from '../bookingDateGenerator';
+import { SeededRandom } from '../random/seededRandom';
+
+/**
+ * Builds a single booking. Every field is drawn from the bookingData.json pools up front,
+ * then the `with*` overrides are applied, so overriding one field never changes the others
+ * for the same seed.
+ */
+export class BookingBuilder {
+  private readonly booking: Booking;
+
+  constructor(random: SeededRandom) {
+    const nights = random.integer(
+      BOOKING_FACTORY_PARAMS.MIN_NIGHTS,
+      BOOKING_FACTORY_PARAMS.MAX_NIGHTS,
+    );
+    const checkinDaysFromNow = random.integer(0, BOOKING_FACTORY_PARAMS.MAX_CHECKIN_DAYS_FROM_NOW);
+
+    this.booking = {
+      firstname: random.pick(bd.FirstNames),
+      lastname: random.pick(bd.LastNames),
+      totalprice: random.integer(
+        BOOKING_FACTORY_PARAMS.MIN_PRICE,
+        BOOKING_FACTORY_PARAMS.MAX_PRICE,
+      ),
+      depositpaid: random.boolean(),
+      bookingdates: BookingDateGenerator.createBookingDates(checkinDaysFromNow, nights),
+      additionalneeds: random.pick(bd.AdditionalNeeds),
+    };
+  }
+
+  public withName(firstname: string, lastname: string = this.booking.lastname): this {
+    this.booking.firstname = firstname;
+    this.booking.lastname = lastname;
+    return this;
+  }
+
+  public withPrice(totalprice: number): this {
+    this.booking.totalprice = totalprice;
+    return this;
+  }
+
+  public withDeposit(depositpaid: boolean = true): this {
+    this.booking.depositpaid = depositpaid;
+    return this;
+  }
+
+  /**
+   * @param nights - Days between checkin and checkout
+   * @param checkinDaysFromNow - Days from today until checkin, negative for past stays
+   */
+  public withStay(nights: number, checkinDaysFromNow: number = 0): this {
+    this.booking.bookingdates = BookingDateGenerator.createBookingDates(checkinDaysFromNow, nights);
+    return this;
+  }
+
+  /**
+   * @param bookingdates - Dates from BookingDateGenerator, e.g. createWeekendStay()
+   */
+  public withBookingDates(bookingdates: BookingDates): this {
+    this.booking.bookingdates = { ...bookingdates };
+    return this;
+  }
+
+  public withAdditionalNeeds(additionalneeds: string): this {
+    this.booking.additionalneeds = additionalneeds;
+    return this;
+  }
+
+  public withoutAdditionalNeeds(): this {
+    delete this.booking.additionalneeds;
+    return this;
+  }
+
+  /**
+   * @returns A copy of the booking, so the builder can keep being modified
+   */
+  public build(): Booking {
+    return structuredClone(this.booking);
+  }
+}
@@ -0,0 +1,41 @@
+import { BookingBuilder } from './bookingBuilder';
+import { BOOKING_FACTORY_PARAMS } from '../../models/api/bookingFactory.interface';
+import { TemplateGenerators } from '../../models/api/testDataTemplate.interface';
+import * as bd from '../bookingData.json';
+import { SeededRandom } from '../random/seededRandom';
+
+/**
+ * Creates deterministic bookings: the same seed and the same sequence of calls
+ * always produce the same bookings.
+ *
+ * @example
+ * const payload = bookingFactory.booking().withStay(3).withDeposit(false).build();
+ */
+export class BookingFactory {
+  constructor(private readonly random: SeededRandom) {}
+
+  public getSeed(): number {
+    return this.random.getSeed();
+  }
+
+  /**
+   * Starts a new booking with every field drawn from the seeded pools.
+   */
+  public booking(): BookingBuilder {
+    return new BookingBuilder(this.random);
+  }
+
+  /**
+   * Generators for `${random.<name>}` template placeholders, drawing from the same seeded pools.
+   */
+  public generators(): TemplateGenerators {
+    return {
+      firstname: () => this.random.pick(bd.FirstNames),
+      lastname: () => this.random.pick(bd.LastNames),
+      additionalneeds: () => this.random.pick(bd.AdditionalNeeds),
+      totalprice: () =>
+        this.random.integer(BOOKING_FACTORY_PARAMS.MIN_PRICE, BOOKING_FACTORY_PARAMS.MAX_PRICE),
+      depositpaid: () => this.random.boolean(),
+    };
+  }
+}
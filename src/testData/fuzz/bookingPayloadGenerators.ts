@@ -0,0 +1,139 @@
+import PropertyGenerators from './propertyGenerators';
+import { Booking } from '../../models/api/booking.interface';
+import { PropertyGenerator } from '../../models/api/propertyGenerator.interface';
+import * as bd from '../bookingData.json';
+import { BookingDateGenerator } from '../bookingDateGenerator';
+
+type BookingMutation =
+  | { kind: 'missing-field'; field: string }
+  | { kind: 'wrong-type'; field: string; value: unknown }
+  | { kind: 'negative-price'; value: number };
+
+/**
+ * Property generators for POST /booking payloads.
+ */
+export class BookingPayloadGenerators {
+  // Required fields of a booking and the type the contract documents for them
+  private static readonly REQUIRED_FIELDS: Record<string, string> = {
+    firstname: 'string',
+    lastname: 'string',
+    totalprice: 'number',
+    depositpaid: 'boolean',
+    bookingdates: 'object',
+    'bookingdates.checkin': 'string',
+    'bookingdates.checkout': 'string',
+  };
+
+  private static readonly WRONG_TYPE_VALUES: unknown[] = [null, 42, 'text', true, [], {}];
+
+  /**
+   * Bookings the contract allows but the hand-written data never exercises:
+   * unicode and very long names, fractional and huge prices, past, distant and swapped dates,
+   * and a missing `additionalneeds`.
+   */
+  public static edgeCases(): PropertyGenerator<Booking> {
+    const name = PropertyGenerators.oneOf(
+      PropertyGenerators.element(bd.FirstNames),
+      PropertyGenerators.unicodeString({ minLength: 1, maxLength: 30 }),
+      PropertyGenerators.string({ minLength: 256, maxLength: 2048 }),
+    );
+
+    return PropertyGenerators.record<Booking>({
+      firstname: name,
+      lastname: name,
+      totalprice: PropertyGenerators.oneOf(
+        PropertyGenerators.integer(0, 10_000),
+        PropertyGenerators.float(0, 10_000),
+        PropertyGenerators.integer(1_000_000_000, Number.MAX_SAFE_INTEGER),
+        PropertyGenerators.constant(Number.MAX_VALUE),
+      ),
+      depositpaid: PropertyGenerators.boolean(),
+      bookingdates: this.bookingDates(),
+      additionalneeds: PropertyGenerators.optional(
+        PropertyGenerators.oneOf(
+          PropertyGenerators.element(bd.AdditionalNeeds),
+          PropertyGenerators.unicodeString({ maxLength: 50 }),
+        ),
+      ),
+    });
+  }
+
+  /**
+   * Edge-case bookings with one defect the contract forbids: a missing required field,
+   * a value of the wrong type or a negative price.
+   */
+  public static malformed(): PropertyGenerator<Record<string, unknown>> {
+    const fields = Object.keys(this.REQUIRED_FIELDS);
+
+    const mutation = PropertyGenerators.oneOf<BookingMutation>(
+      PropertyGenerators.map(PropertyGenerators.element(fields), (field) => ({
+        kind: 'missing-field',
+        field,
+      })),
+      ...fields.map((field) =>
+        PropertyGenerators.map(
+          PropertyGenerators.element(this.getWrongTypeValues(field)),
+          (value): BookingMutation => ({ kind: 'wrong-type', field, value }),
+        ),
+      ),
+      PropertyGenerators.map(
+        PropertyGenerators.integer(Number.MIN_SAFE_INTEGER, -1),
+        (value): BookingMutation => ({ kind: 'negative-price', value }),
+      ),
+    );
+
+    return PropertyGenerators.map(
+      PropertyGenerators.record({ booking: this.edgeCases(), mutation }),
+      ({ booking, mutation }) => this.applyMutation(booking, mutation),
+    );
+  }
+
+  /**
+   * Check-in up to ten years before or after today; check-out up to a year later,
+   * or earlier when the dates are swapped.
+   */
+  private static bookingDates(): PropertyGenerator<Booking['bookingdates']> {
+    return PropertyGenerators.map(
+      PropertyGenerators.record({
+        checkinDaysFromNow: PropertyGenerators.integer(-3650, 3650),
+        nights: PropertyGenerators.integer(0, 365),
+        swapped: PropertyGenerators.boolean(),
+      }),
+      ({ checkinDaysFromNow, nights, swapped }) =>
+        BookingDateGenerator.createBookingDates(checkinDaysFromNow, swapped ? -nights : nights),
+    );
+  }
+
+  private static getWrongTypeValues(field: string): unknown[] {
+    const expectedType = this.REQUIRED_FIELDS[field];
+
+    return this.WRONG_TYPE_VALUES.filter((value) => {
+      const type = value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value;
+      return type !== expectedType;
+    });
+  }
+
+  private static applyMutation(
+    booking: Booking,
+    mutation: BookingMutation,
+  ): Record<string, unknown> {
+    const payload = structuredClone(booking) as unknown as Record<string, unknown>;
+
+    if (mutation.kind === 'negative-price') {
+      payload.totalprice = mutation.value;
+      return payload;
+    }
+
+    const path = mutation.field.split('.');
+    const property = path.pop() as string;
+    const parent = path.reduce((value, key) => value[key] as Record<string, unknown>, payload);
+
+    if (mutation.kind === 'missing-field') {
+      delete parent[property];
+    } else {
+      parent[property] = mutation.value;
+    }
+
+    return payload;
+  }
+}
@@ -0,0 +1,239 @@
+import {
+  PropertyGenerator,
+  Shrinkable,
+  StringGeneratorOptions,
+} from '../../models/api/propertyGenerator.interface';
+
+/**
+ * Building blocks for property-based test data. Every generator shrinks its values towards the
+ * simplest one (0, the first element, the shortest string), so a failing input can be reduced
+ * to a minimal counterexample.
+ */
+export default class PropertyGenerators {
+  public static readonly ASCII_LETTERS = Array.from(
+    'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ',
+  );
+
+  // Accents, non-Latin scripts, right-to-left text, emoji, combining and invisible characters
+  public static readonly UNICODE_CHARACTERS = [
+    'é',
+    'ß',
+    'Ω',
+    'Ж',
+    '中',
+    '日',
+    '한',
+    'ع',
+    'ש',
+    '😀',
+    '👍🏽',
+    '\u0301',
+    '\u200b',
+    '\u202e',
+    '\u0000',
+  ];
+
+  public static constant<T>(value: T): PropertyGenerator<T> {
+    return { generate: () => this.leaf(value) };
+  }
+
+  /**
+   * Integers in [min, max], shrinking towards the value closest to 0.
+   */
+  public static integer(min: number, max: number): PropertyGenerator<number> {
+    const target = this.clamp(0, min, max);
+    return { generate: (random) => this.shrinkableInteger(random.integer(min, max), target) };
+  }
+
+  /**
+   * Floats in [min, max), shrinking towards whole numbers and then towards the value closest to 0.
+   */
+  public static float(min: number, max: number): PropertyGenerator<number> {
+    const target = this.clamp(0, min, max);
+    return { generate: (random) => this.shrinkableFloat(random.float(min, max), target) };
+  }
+
+  public static boolean(): PropertyGenerator<boolean> {
+    return this.element([false, true]);
+  }
+
+  /**
+   * One of the given items, shrinking towards the first one.
+   */
+  public static element<T>(items: readonly T[]): PropertyGenerator<T> {
+    const shrinkableAt = (index: number): Shrinkable<T> => ({
+      value: items[index],
+      shrink: function* () {
+        for (let candidate = 0; candidate < index; candidate++) {
+          yield shrinkableAt(candidate);
+        }
+      },
+    });
+
+    return { generate: (random) => shrinkableAt(random.integer(0, items.length - 1)) };
+  }
+
+  /**
+   * A value of one of the generators, each equally likely. Shrinks within the chosen generator.
+   */
+  public static oneOf<T>(...generators: PropertyGenerator<T>[]): PropertyGenerator<T> {
+    return { generate: (random) => random.pick(generators).generate(random) };
+  }
+
+  /**
+   * Strings shrinking towards fewer characters, then towards the first character of the set.
+   */
+  public static string({
+    minLength = 0,
+    maxLength = 20,
+    characters = this.ASCII_LETTERS,
+  }: StringGeneratorOptions = {}): PropertyGenerator<string> {
+    return {
+      generate: (random) => {
+        const length = random.integer(minLength, maxLength);
+        const chars = Array.from({ length }, () => random.pick(characters));
+        return this.shrinkableString(chars, minLength, characters[0]);
+      },
+    };
+  }
+
+  public static unicodeString(
+    options: Omit<StringGeneratorOptions, 'characters'> = {},
+  ): PropertyGenerator<string> {
+    return this.string({ ...options, characters: this.UNICODE_CHARACTERS });
+  }
+
+  /**
+   * The value of the generator, or undefined with the given probability.
+   * Records leave undefined properties out, which makes this the way to generate missing fields.
+   */
+  public static optional<T>(
+    generator: PropertyGenerator<T>,
+    missingProbability: number = 0.5,
+  ): PropertyGenerator<T | undefined> {
+    return {
+      generate: (random) =>
+        random.boolean(missingProbability) ? this.leaf(undefined) : generator.generate(random),
+    };
+  }
+
+  public static map<T, U>(
+    generator: PropertyGenerator<T>,
+    mapper: (value: T) => U,
+  ): PropertyGenerator<U> {
+    return { generate: (random) => this.mapShrinkable(generator.generate(random), mapper) };
+  }
+
+  /**
+   * Objects with one generated value per property; undefined values are left out.
+   * Shrinks one property at a time.
+   */
+  public static record<T extends object>(shape: {
+    [K in keyof T]: PropertyGenerator<T[K]>;
+  }): PropertyGenerator<T> {
+    const keys = Object.keys(shape) as (keyof T)[];
+
+    const build = (fields: Map<keyof T, Shrinkable<T[keyof T]>>): Shrinkable<T> => ({
+      value: Object.fromEntries(
+        keys
+          .map((key) => [key, fields.get(key)?.value] as const)
+          .filter(([, value]) => value !== undefined),
+      ) as T,
+      shrink: function* () {
+        for (const key of keys) {
+          for (const candidate of (fields.get(key) as Shrinkable<T[keyof T]>).shrink()) {
+            yield build(new Map(fields).set(key, candidate));
+          }
+        }
+      },
+    });
+
+    return {
+      generate: (random) =>
+        build(new Map(keys.map((key) => [key, shape[key].generate(random)] as const))),
+    };
+  }
+
+  private static leaf<T>(value: T): Shrinkable<T> {
+    return { value, shrink: () => [] };
+  }
+
+  private static mapShrinkable<T, U>(
+    shrinkable: Shrinkable<T>,
+    mapper: (value: T) => U,
+  ): Shrinkable<U> {
+    return {
+      value: mapper(shrinkable.value),
+      shrink: function* () {
+        for (const candidate of shrinkable.shrink()) {
+          yield PropertyGenerators.mapShrinkable(candidate, mapper);
+        }
+      },
+    };
+  }
+
+  private static shrinkableInteger(value: number, target: number): Shrinkable<number> {
+    return {
+      value,
+      shrink: function* () {
+        // The target first, then halfway there, then a single step
+        const candidates = new Set([
+          target,
+          value - Math.trunc((value - target) / 2),
+          value - Math.sign(value - target),
+        ]);
+        candidates.delete(value);
+        for (const candidate of candidates) {
+          yield PropertyGenerators.shrinkableInteger(candidate, target);
+        }
+      },
+    };
+  }
+
+  private static shrinkableFloat(value: number, target: number): Shrinkable<number> {
+    return {
+      value,
+      shrink: function* () {
+        if (!Number.isInteger(value)) {
+          yield PropertyGenerators.shrinkableInteger(Math.trunc(value), Math.trunc(target));
+        }
+        if (value !== target) {
+          yield PropertyGenerators.shrinkableFloat(target, target);
+        }
+      },
+    };
+  }
+
+  private static shrinkableString(
+    chars: string[],
+    minLength: number,
+    simplest: string,
+  ): Shrinkable<string> {
+    return {
+      value: chars.join(''),
+      shrink: function* () {
+        // Drop the second half, then single characters
+        if (chars.length > minLength + 1) {
+          const half = Math.max(minLength, Math.floor(chars.length / 2));
+          yield PropertyGenerators.shrinkableString(chars.slice(0, half), minLength, simplest);
+        }
+        if (chars.length > minLength) {
+          for (let index = 0; index < chars.length; index++) {
+            const shorter = [...chars.slice(0, index), ...chars.slice(index + 1)];
+            yield PropertyGenerators.shrinkableString(shorter, minLength, simplest);
+          }
+        }
+        // Then simplify the characters themselves
+        const index = chars.findIndex((char) => char !== simplest);
+        if (index !== -1) {
+          const simpler = chars.map((char, position) => (position === index ? simplest : char));
+          yield PropertyGenerators.shrinkableString(simpler, minLength, simplest);
+        }
+      },
+    };
+  }
+
+  private static clamp(value: number, min: number, max: number): number {
+    return Math.min(Math.max(value, min), max);
+  }
+}
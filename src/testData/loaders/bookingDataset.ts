@@ -0,0 +1,200 @@
+import DatasetLoader from './datasetLoader';
+import SchemaRegistry from '../../api/schemas/schemaRegistry';
+import JsonSchemaValidator from '../../api/validators/jsonSchemaValidator';
+import {
+  BookingDatasetOptions,
+  BookingDatasetRow,
+  DATASET_PARAMS,
+} from '../../models/api/bookingDataset.interface';
+import { Booking } from '../../models/api/booking.interface';
+import { JSON_SCHEMA_PARAMS } from '../../models/api/jsonSchema.interface';
+import { ErrorCategory } from '../../models/utils/errorCategory.enum';
+import { AppError } from '../../utils/errors/AppError';
+
+/**
+ * Loads data-driven booking scenarios. Every row has a title column, optional `tags`,
+ * an `expectedStatus`, a `payload` and optional `expected` fields of the created booking. Rows
+ * expecting 200 must have a valid Booking as payload; other rows describe a rejected request and
+ * may send any object. All rows are checked before any is returned, so one error lists every
+ * problem of the dataset.
+ */
+export default class BookingDataset {
+  private static readonly COLUMNS = ['tags', 'expectedStatus', 'payload', 'expected'];
+  private static readonly SUCCESS_STATUS = 200;
+
+  /**
+   * @param filePath - Path of a CSV, JSON or YAML dataset, relative to the working directory
+   * @param options - Column to take the test titles from
+   * @returns The validated rows
+   * @throws AppError with ErrorCategory.VALIDATION if a row is not a valid booking scenario.
+   */
+  public static async load(
+    filePath: string,
+    options: BookingDatasetOptions = {},
+  ): Promise<BookingDatasetRow[]> {
+    return this.toRows(await DatasetLoader.load(filePath), filePath, options);
+  }
+
+  /**
+   * Synchronous variant of load, for declaring one test per row.
+   */
+  public static loadSync(
+    filePath: string,
+    options: BookingDatasetOptions = {},
+  ): BookingDatasetRow[] {
+    return this.toRows(DatasetLoader.loadSync(filePath), filePath, options);
+  }
+
+  /**
+   * @returns The row's title followed by its grep tags, e.g. `Late checkout @dataset @smoke`
+   */
+  public static getTestTitle(row: BookingDatasetRow): string {
+    return [row.title, DATASET_PARAMS.TAG, ...row.tags].join(' ');
+  }
+
+  private static toRows(
+    records: Record<string, unknown>[],
+    filePath: string,
+    { titleColumn = DATASET_PARAMS.TITLE_COLUMN }: BookingDatasetOptions,
+  ): BookingDatasetRow[] {
+    const problems: string[] = [];
+    const titles = new Set<string>();
+
+    const rows = records.map((record, index) => {
+      const rowProblems: string[] = [];
+      const row = this.toRow(record, titleColumn, rowProblems);
+
+      if (row.title && titles.has(row.title)) {
+        rowProblems.push(`duplicate title '${row.title}'`);
+      }
+      titles.add(row.title);
+
+      problems.push(...rowProblems.map((problem) => `row ${index + 1}: ${problem}`));
+      return row;
+    });
+
+    if (problems.length > 0) {
+      throw new AppError(
+        ErrorCategory.VALIDATION,
+        { filePath, problems },
+        `Invalid booking dataset ${filePath}: ${problems.join('; ')}`,
+      );
+    }
+
+    return rows;
+  }
+
+  private static toRow(
+    record: Record<string, unknown>,
+    titleColumn: string,
+    problems: string[],
+  ): BookingDatasetRow {
+    const { tags, expectedStatus, payload, expected } = record;
+    const titleValue = record[titleColumn];
+    const title =
+      typeof titleValue === 'string' || typeof titleValue === 'number'
+        ? String(titleValue).trim()
+        : '';
+
+    const unknownColumns = Object.keys(record).filter(
+      (column) => column !== titleColumn && !this.COLUMNS.includes(column),
+    );
+    if (unknownColumns.length > 0) {
+      problems.push(`unknown column(s) ${unknownColumns.join(', ')}`);
+    }
+
+    if (!title) {
+      problems.push(`'${titleColumn}' must be a non-empty string`);
+    }
+
+    if (typeof expectedStatus !== 'number' || !Number.isInteger(expectedStatus)) {
+      problems.push(`'expectedStatus' must be an integer status code`);
+    }
+
+    const tagList = this.toTags(tags, problems);
+
+    if (expectedStatus === this.SUCCESS_STATUS) {
+      const violations = JsonSchemaValidator.validate(payload, SchemaRegistry.get('Booking'), {
+        disallowUndeclaredProperties: true,
+      });
+      problems.push(
+        ...violations.map(({ path, message }) =>
+          path === JSON_SCHEMA_PARAMS.ROOT_PATH
+            ? `payload: ${message}`
+            : `payload.${path}: ${message}`,
+        ),
+      );
+    } else if (payload === null || typeof payload !== 'object' || Array.isArray(payload)) {
+      // Rows expecting a rejection send deliberately invalid bookings, but still a JSON object
+      problems.push(`'payload' must be an object`);
+    }
+
+    const expectedFields = this.toExpectedFields(expected, problems);
+    if (Object.keys(expectedFields).length > 0 && expectedStatus !== this.SUCCESS_STATUS) {
+      problems.push(`'expected' fields can only be checked when 'expectedStatus' is 200`);
+    }
+
+    return {
+      title,
+      tags: tagList,
+      payload: payload as Booking,
+      expectedStatus: expectedStatus as number,
+      expectedFields,
+    };
+  }
+
+  /**
+   * Accepts an array of tags or a string of tags separated by spaces or commas.
+   */
+  private static toTags(tags: unknown, problems: string[]): string[] {
+    if (tags === undefined) {
+      return [];
+    }
+
+    const list =
+      typeof tags === 'string'
+        ? tags.split(/[\s,]+/).filter(Boolean)
+        : Array.isArray(tags)
+          ? tags.map(String)
+          : [];
+    if (typeof tags !== 'string' && !Array.isArray(tags)) {
+      problems.push(`'tags' must be a string or an array of strings`);
+    }
+
+    const untagged = list.filter((tag) => !tag.startsWith('@'));
+    if (untagged.length > 0) {
+      problems.push(`tags must start with '@': ${untagged.join(', ')}`);
+    }
+
+    return list;
+  }
+
+  /**
+   * Flattens nested expected values into dotted paths, so `{ bookingdates: { checkin } }`
+   * and `{ 'bookingdates.checkin': ... }` mean the same.
+   */
+  private static toExpectedFields(expected: unknown, problems: string[]): Record<string, unknown> {
+    if (expected === undefined) {
+      return {};
+    }
+    if (expected === null || typeof expected !== 'object' || Array.isArray(expected)) {
+      problems.push(`'expected' must be an object of field values`);
+      return {};
+    }
+
+    const fields: Record<string, unknown> = {};
+    const flatten = (value: Record<string, unknown>, prefix: string) => {
+      for (const [key, item] of Object.entries(value)) {
+        const fieldPath = prefix ? `${prefix}${DATASET_PARAMS.PATH_SEPARATOR}${key}` : key;
+        if (item !== null && typeof item === 'object' && !Array.isArray(item)) {
+          flatten(item as Record<string, unknown>, fieldPath);
+        } else {
+          fields[fieldPath] = item;
+        }
+      }
+    };
+    flatten(expected as Record<string, unknown>, '');
+
+    return fields;
+  }
+}
@@ -0,0 +1,233 @@
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { DATASET_PARAMS, DatasetFormat } from '../../models/api/bookingDataset.interface';
+import { ErrorCategory } from '../../models/utils/errorCategory.enum';
+import { AppError } from '../../utils/errors/AppError';
+import AsyncFileManager from '../../utils/fileManagers/asyncFileManager';
+import SyncFileManager from '../../utils/fileManagers/syncFileManager';
+
+interface CsvCell {
+  text: string;
+  quoted: boolean;
+}
+
+/**
+ * Reads the rows of a CSV, JSON or YAML dataset, chosen by the file extension.
+ *
+ * JSON and YAML datasets are an array of objects. CSV datasets have a header row; headers with
+ * dots nest their values (`payload.bookingdates.checkin`), unquoted `true`/`false` and numbers
+ * are converted, empty cells are left out and quoted cells are always kept as strings.
+ */
+export default class DatasetLoader {
+  /**
+   * @param filePath - Path of the dataset, relative to the working directory
+   * @returns One record per row
+   * @throws AppError with ErrorCategory.FILE_NOT_FOUND if the dataset does not exist.
+   * @throws AppError with ErrorCategory.PARSING if it cannot be parsed into rows.
+   */
+  public static async load(filePath: string): Promise<Record<string, unknown>[]> {
+    const absolutePath = path.resolve(filePath);
+
+    if (!(await AsyncFileManager.doesFileExist(absolutePath))) {
+      this.throwNotFound(filePath);
+    }
+
+    return this.parse(await AsyncFileManager.readFile(absolutePath), filePath);
+  }
+
+  /**
+   * Synchronous variant of load, for declaring tests: Playwright collects a spec's tests
+   * synchronously, so rows that become tests must be known before the first await.
+   */
+  public static loadSync(filePath: string): Record<string, unknown>[] {
+    const absolutePath = path.resolve(filePath);
+
+    if (!SyncFileManager.fileExistsSync(absolutePath)) {
+      this.throwNotFound(filePath);
+    }
+
+    return this.parse(SyncFileManager.readFileSync(absolutePath), filePath);
+  }
+
+  /**
+   * @param content - The dataset's file content
+   * @param filePath - Path of the dataset; its extension selects the format
+   * @throws AppError with ErrorCategory.PARSING if the content cannot be parsed into rows.
+   */
+  public static parse(content: string, filePath: string): Record<string, unknown>[] {
+    const format = this.getFormat(filePath);
+
+    let rows: unknown;
+    try {
+      rows =
+        format === 'csv'
+          ? this.parseCsv(content, filePath)
+          : format === 'json'
+            ? JSON.parse(content)
+            : parseYaml(content);
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      throw new AppError(
+        ErrorCategory.PARSING,
+        { filePath, reason: error instanceof Error ? error.message : String(error) },
+        `Dataset ${filePath} is not valid ${format.toUpperCase()}`,
+      );
+    }
+
+    if (
+      !Array.isArray(rows) ||
+      rows.some((row) => row === null || typeof row !== 'object' || Array.isArray(row))
+    ) {
+      throw new AppError(
+        ErrorCategory.PARSING,
+        { filePath },
+        `Dataset ${filePath} must be an array of rows with one object per row`,
+      );
+    }
+
+    return rows as Record<string, unknown>[];
+  }
+
+  private static getFormat(filePath: string): DatasetFormat {
+    const extension = path.extname(filePath).toLowerCase();
+    const format = DATASET_PARAMS.FORMATS[extension];
+
+    if (!format) {
+      throw new AppError(
+        ErrorCategory.PARSING,
+        { filePath, extension },
+        `Unsupported dataset ${filePath}, expected one of ` +
+          Object.keys(DATASET_PARAMS.FORMATS).join(', '),
+      );
+    }
+
+    return format;
+  }
+
+  private static parseCsv(content: string, filePath: string): Record<string, unknown>[] {
+    const [header, ...lines] = this.tokenizeCsv(content, filePath);
+    if (!header) {
+      return [];
+    }
+
+    const columns = header.map(({ text }) => text.trim());
+
+    return lines.map((cells, index) => {
+      if (cells.length !== columns.length) {
+        throw new AppError(
+          ErrorCategory.PARSING,
+          { filePath, row: index + 1 },
+          `Dataset ${filePath} row ${index + 1} has ${cells.length} cell(s), ` +
+            `the header has ${columns.length}`,
+        );
+      }
+
+      const row: Record<string, unknown> = {};
+      columns.forEach((column, position) => {
+        const value = this.convertCsvCell(cells[position]);
+        if (value !== undefined) {
+          this.setNested(row, column.split(DATASET_PARAMS.PATH_SEPARATOR), value);
+        }
+      });
+      return row;
+    });
+  }
+
+  /**
+   * Splits CSV content into lines of cells. Quoted cells may contain commas, line breaks and
+   * `""` for a quote; blank lines are skipped.
+   */
+  private static tokenizeCsv(content: string, filePath: string): CsvCell[][] {
+    const lines: CsvCell[][] = [];
+    let cells: CsvCell[] = [];
+    let cell: CsvCell = { text: '', quoted: false };
+    let inQuotes = false;
+
+    const endCell = () => {
+      cells.push(cell);
+      cell = { text: '', quoted: false };
+    };
+    const endLine = () => {
+      endCell();
+      if (cells.length > 1 || cells[0].text !== '' || cells[0].quoted) {
+        lines.push(cells);
+      }
+      cells = [];
+    };
+
+    for (let index = 0; index < content.length; index++) {
+      const char = content[index];
+
+      if (inQuotes) {
+        if (char === '"' && content[index + 1] === '"') {
+          cell.text += '"';
+          index++;
+        } else if (char === '"') {
+          inQuotes = false;
+        } else {
+          cell.text += char;
+        }
+      } else if (char === '"' && cell.text.trim() === '') {
+        cell = { text: '', quoted: true };
+        inQuotes = true;
+      } else if (char === ',') {
+        endCell();
+      } else if (char === '\n') {
+        endLine();
+      } else if (char !== '\r') {
+        cell.text += char;
+      }
+    }
+
+    if (inQuotes) {
+      throw new AppError(
+        ErrorCategory.PARSING,
+        { filePath },
+        `Dataset ${filePath} has a quoted cell that is never closed`,
+      );
+    }
+    endLine();
+
+    return lines;
+  }
+
+  private static convertCsvCell({ text, quoted }: CsvCell): unknown {
+    if (quoted) {
+      return text;
+    }
+
+    const value = text.trim();
+    if (value === '') {
+      return undefined;
+    }
+    if (value === 'true' || value === 'false') {
+      return value === 'true';
+    }
+    if (/^-?\d+(\.\d+)?$/.test(value)) {
+      return Number(value);
+    }
+    return value;
+  }
+
+  private static setNested(target: Record<string, unknown>, keys: string[], value: unknown): void {
+    const property = keys.pop() as string;
+    const parent = keys.reduce<Record<string, unknown>>((current, key) => {
+      if (current[key] === null || typeof current[key] !== 'object') {
+        current[key] = {};
+      }
+      return current[key] as Record<string, unknown>;
+    }, target);
+
+    parent[property] = value;
+  }
+
+  private static throwNotFound(filePath: string): never {
+    throw new AppError(
+      ErrorCategory.FILE_NOT_FOUND,
+      { filePath },
+      `No dataset found at ${filePath}`,
+    );
+  }
+}
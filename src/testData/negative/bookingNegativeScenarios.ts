@@ -0,0 +1,163 @@
+import { BookingDateGenerator } from '../bookingDateGenerator';
+import { BookingFactory } from '../factories/bookingFactory';
+import {
+  NEGATIVE_SCENARIO_PARAMS,
+  NegativeScenario,
+  NegativeScenarioAuthorization,
+} from '../../models/api/negativeScenario.interface';
+
+type BookingMutation = 'replace' | 'patch' | 'delete';
+
+/**
+ * Catalogue of booking requests the API should reject. Each scenario only declares what it
+ * sends and which statuses count as a rejection; NegativeScenarioRunner executes them.
+ */
+export class BookingNegativeScenarios {
+  private static readonly MUTATIONS: Record<BookingMutation, string> = {
+    replace: 'update',
+    patch: 'partially update',
+    delete: 'delete',
+  };
+
+  private static readonly REJECTED_CREDENTIALS: Partial<
+    Record<NegativeScenarioAuthorization, string>
+  > = {
+    none: 'without a token',
+    'expired-token': 'with an expired token',
+    'garbage-token': 'with a garbage token',
+  };
+
+  private static readonly booking = (bookingFactory: BookingFactory) =>
+    bookingFactory.booking().build();
+
+  private static readonly KNOWN_GAPS = {
+    CHECKOUT_BEFORE_CHECKIN: 'Restful Booker stores bookings whose checkout is before the checkin',
+  };
+
+  /**
+   * @returns Every scenario of the catalogue
+   */
+  public static all(): NegativeScenario[] {
+    return [
+      ...this.unauthorizedMutations(),
+      ...this.malformedBodies(),
+      ...this.invalidDates(),
+      ...this.nonNumericIds(),
+    ];
+  }
+
+  /**
+   * Update, partial update and delete without a token, with an expired and with a garbage token.
+   */
+  public static unauthorizedMutations(): NegativeScenario[] {
+    return Object.entries(this.REJECTED_CREDENTIALS).flatMap(([authorization, description]) =>
+      Object.entries(this.MUTATIONS).map(([operation, verb]) => ({
+        name: `${verb} booking ${description}`,
+        operation: operation as BookingMutation,
+        authorization: authorization as NegativeScenarioAuthorization,
+        expectedStatuses: [403],
+        payload: operation === 'delete' ? undefined : this.booking,
+      })),
+    );
+  }
+
+  /**
+   * Bodies the API cannot read: malformed JSON and a booking sent as plain text.
+   */
+  public static malformedBodies(): NegativeScenario[] {
+    return [
+      {
+        name: 'create booking with malformed JSON',
+        operation: 'create',
+        authorization: 'none',
+        expectedStatuses: [400],
+        rawBody: NEGATIVE_SCENARIO_PARAMS.MALFORMED_JSON,
+      },
+      {
+        name: 'update booking with malformed JSON',
+        operation: 'replace',
+        authorization: 'valid',
+        expectedStatuses: [400],
+        rawBody: NEGATIVE_SCENARIO_PARAMS.MALFORMED_JSON,
+      },
+      {
+        name: 'partially update booking with malformed JSON',
+        operation: 'patch',
+        authorization: 'valid',
+        expectedStatuses: [400],
+        rawBody: NEGATIVE_SCENARIO_PARAMS.MALFORMED_JSON,
+      },
+      {
+        name: 'update booking with a text/plain Content-Type',
+        operation: 'replace',
+        authorization: 'valid',
+        expectedStatuses: [400, 415],
+        payload: this.booking,
+        headers: { 'Content-Type': NEGATIVE_SCENARIO_PARAMS.TEXT_CONTENT_TYPE },
+      },
+    ];
+  }
+
+  /**
+   * Bookings whose checkout is before their checkin.
+   */
+  public static invalidDates(): NegativeScenario[] {
+    // Checks in five days from now and out three days before that
+    const reversedStay = (bookingFactory: BookingFactory) =>
+      bookingFactory
+        .booking()
+        .withBookingDates(BookingDateGenerator.createBookingDates(5, -3))
+        .build();
+
+    return [
+      {
+        name: 'create booking with checkout before checkin',
+        operation: 'create',
+        authorization: 'none',
+        expectedStatuses: [400],
+        payload: reversedStay,
+        knownGap: this.KNOWN_GAPS.CHECKOUT_BEFORE_CHECKIN,
+      },
+      {
+        name: 'update booking with checkout before checkin',
+        operation: 'replace',
+        authorization: 'valid',
+        expectedStatuses: [400],
+        payload: reversedStay,
+        knownGap: this.KNOWN_GAPS.CHECKOUT_BEFORE_CHECKIN,
+      },
+    ];
+  }
+
+  /**
+   * Requests for a booking ID that is not a number.
+   */
+  public static nonNumericIds(): NegativeScenario[] {
+    const bookingId = NEGATIVE_SCENARIO_PARAMS.NON_NUMERIC_ID;
+
+    return [
+      {
+        name: 'get booking with a non-numeric id',
+        operation: 'get',
+        authorization: 'none',
+        expectedStatuses: [404],
+        bookingId,
+      },
+      {
+        name: 'update booking with a non-numeric id',
+        operation: 'replace',
+        authorization: 'valid',
+        expectedStatuses: [404, 405],
+        bookingId,
+        payload: this.booking,
+      },
+      {
+        name: 'delete booking with a non-numeric id',
+        operation: 'delete',
+        authorization: 'valid',
+        expectedStatuses: [404, 405],
+        bookingId,
+      },
+    ];
+  }
+}
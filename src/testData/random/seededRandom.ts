@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+
+/**
+ * Deterministic pseudo-random source (mulberry32). The same seed always produces the same
+ * sequence, so generated test data can be reproduced from the seed alone.
+ * Not suitable for anything security related; use SecureKeyGenerator for that.
+ */
+export class SeededRandom {
+  private state: number;
+
+  /**
+   * @param seed - 32-bit unsigned seed; a random one is created if omitted
+   */
+  constructor(private readonly seed: number = SeededRandom.createSeed()) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Creates a random 32-bit unsigned seed.
+   */
+  public static createSeed(): number {
+    return crypto.randomInt(0, 2 ** 32 - 1);
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * @returns A float in [0, 1)
+   */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  }
+
+  /**
+   * @returns An integer in [min, max], both inclusive
+   */
+  public integer(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  /**
+   * @returns A float in [min, max)
+   */
+  public float(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  /**
+   * @param probability - Chance of returning true
+   */
+  public boolean(probability: number = 0.5): boolean {
+    return this.next() < probability;
+  }
+
+  public pick<T>(items: readonly T[]): T {
+    return items[this.integer(0, items.length - 1)];
+  }
+}
@@ -0,0 +1,200 @@
+import path from 'path';
+import { BookingDateGenerator } from '../bookingDateGenerator';
+import {
+  TEMPLATE_PARAMS,
+  TemplateContext,
+  TemplateGenerators,
+  TemplateSource,
+  UnresolvedPlaceholder,
+} from '../../models/api/testDataTemplate.interface';
+import { JSON_SCHEMA_PARAMS } from '../../models/api/jsonSchema.interface';
+import { ErrorCategory } from '../../models/utils/errorCategory.enum';
+import { AppError } from '../../utils/errors/AppError';
+import AsyncFileManager from '../../utils/fileManagers/asyncFileManager';
+
+/**
+ * Resolves `${...}` placeholders in test-data templates:
+ * - `${name}` or `${guest.firstname}`: a value of the context
+ * - `${env.NAME}`: an environment variable
+ * - `${today}`, `${today+4d}`, `${today-2d}`: a date as YYYY-MM-DD, relative to Clock
+ * - `${random.name}`: the value of a generator, e.g. one of BookingFactory.generators()
+ *
+ * A string that is a single placeholder takes the type of the value it resolves to, so
+ * `"${totalprice}"` can become a number; placeholders inside longer strings are stringified.
+ */
+export class TemplateEngine {
+  constructor(private readonly generators: TemplateGenerators = {}) {}
+
+  /**
+   * Loads a JSON template file and resolves its placeholders.
+   *
+   * @param filePath - Path of the file, relative to the working directory
+   * @param context - Values of the `${name}` placeholders
+   * @param key - Top-level property holding the template; the whole file if omitted
+   * @returns A resolved copy of the template
+   * @throws AppError with ErrorCategory.FILE_NOT_FOUND if the file does not exist.
+   * @throws AppError with ErrorCategory.PARSING if it is not valid JSON or has no such property.
+   * @throws AppError with ErrorCategory.VALIDATION if a placeholder cannot be resolved.
+   */
+  public async resolveFile<T>(
+    filePath: string,
+    context: TemplateContext = {},
+    key?: string,
+  ): Promise<T> {
+    const absolutePath = path.resolve(filePath);
+
+    if (!(await AsyncFileManager.doesFileExist(absolutePath))) {
+      throw new AppError(
+        ErrorCategory.FILE_NOT_FOUND,
+        { filePath },
+        `No test-data template found at ${filePath}`,
+      );
+    }
+
+    let content: Record<string, unknown>;
+    try {
+      content = JSON.parse(await AsyncFileManager.readFile(absolutePath)) as Record<
+        string,
+        unknown
+      >;
+    } catch (error) {
+      throw new AppError(
+        ErrorCategory.PARSING,
+        { filePath, reason: error instanceof Error ? error.message : String(error) },
+        `Test-data template ${filePath} is not valid JSON`,
+      );
+    }
+
+    if (key !== undefined && content?.[key] === undefined) {
+      throw new AppError(
+        ErrorCategory.PARSING,
+        { filePath, key },
+        `Test-data template ${filePath} has no '${key}' template`,
+      );
+    }
+
+    const template = key === undefined ? content : content[key];
+    return this.resolve<T>(template, context, { file: filePath, path: key });
+  }
+
+  /**
+   * Resolves the placeholders of a template that is already loaded, e.g. an imported JSON file.
+   * Every placeholder is attempted before failing, so one error lists all unresolved ones.
+   *
+   * @param template - The template; left unchanged
+   * @param context - Values of the `${name}` placeholders
+   * @param source - File and path reported for unresolved placeholders
+   * @returns A resolved copy of the template
+   * @throws AppError with ErrorCategory.VALIDATION if a placeholder cannot be resolved.
+   */
+  public resolve<T>(template: unknown, context: TemplateContext, source: TemplateSource): T {
+    const unresolved: UnresolvedPlaceholder[] = [];
+    const resolved = this.resolveValue(template, context, source.path ?? '', unresolved);
+
+    if (unresolved.length > 0) {
+      throw new AppError(
+        ErrorCategory.VALIDATION,
+        { ...source, unresolved },
+        `Unresolved placeholder(s) in ${source.file}: ` +
+          unresolved
+            .map(({ path, placeholder, reason }) => `${path} ${placeholder} (${reason})`)
+            .join('; '),
+      );
+    }
+
+    return resolved as T;
+  }
+
+  private resolveValue(
+    value: unknown,
+    context: TemplateContext,
+    path: string,
+    unresolved: UnresolvedPlaceholder[],
+  ): unknown {
+    if (typeof value === 'string') {
+      return this.resolveString(value, context, path || JSON_SCHEMA_PARAMS.ROOT_PATH, unresolved);
+    }
+
+    if (Array.isArray(value)) {
+      return value.map((item, index) =>
+        this.resolveValue(item, context, `${path}[${index}]`, unresolved),
+      );
+    }
+
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          this.resolveValue(item, context, path ? `${path}.${key}` : key, unresolved),
+        ]),
+      );
+    }
+
+    return value;
+  }
+
+  private resolveString(
+    value: string,
+    context: TemplateContext,
+    path: string,
+    unresolved: UnresolvedPlaceholder[],
+  ): unknown {
+    const matches = [...value.matchAll(TEMPLATE_PARAMS.PLACEHOLDER_PATTERN)];
+    if (matches.length === 0) {
+      return value;
+    }
+
+    const evaluate = (placeholder: string, expression: string): unknown => {
+      const result = this.evaluate(expression.trim(), context);
+      if ('reason' in result) {
+        unresolved.push({ path, placeholder, reason: result.reason });
+      }
+      return 'value' in result ? result.value : placeholder;
+    };
+
+    if (matches.length === 1 && matches[0][0] === value) {
+      return evaluate(value, matches[0][1]);
+    }
+
+    return value.replace(TEMPLATE_PARAMS.PLACEHOLDER_PATTERN, (placeholder, expression: string) =>
+      String(evaluate(placeholder, expression)),
+    );
+  }
+
+  private evaluate(
+    expression: string,
+    context: TemplateContext,
+  ): { value: unknown } | { reason: string } {
+    if (expression.startsWith(TEMPLATE_PARAMS.ENVIRONMENT_PREFIX)) {
+      const variable = expression.slice(TEMPLATE_PARAMS.ENVIRONMENT_PREFIX.length);
+      const value = process.env[variable];
+      return value === undefined
+        ? { reason: `environment variable ${variable} is not set` }
+        : { value };
+    }
+
+    if (expression.startsWith(TEMPLATE_PARAMS.GENERATOR_PREFIX)) {
+      const name = expression.slice(TEMPLATE_PARAMS.GENERATOR_PREFIX.length);
+      const generator = this.generators[name];
+      return generator ? { value: generator() } : { reason: `no generator '${name}'` };
+    }
+
+    const date = TEMPLATE_PARAMS.DATE_EXPRESSION_PATTERN.exec(expression);
+    if (date) {
+      const [, sign, days] = date;
+      const offset = days === undefined ? 0 : Number(days) * (sign === '-' ? -1 : 1);
+      return { value: BookingDateGenerator.getDateFromToday(offset) };
+    }
+
+    const value = expression
+      .split('.')
+      .reduce<unknown>(
+        (current, key) =>
+          current !== null && typeof current === 'object'
+            ? (current as Record<string, unknown>)[key]
+            : undefined,
+        context,
+      );
+    return value === undefined ? { reason: `no context variable '${expression}'` } : { value };
+  }
+}
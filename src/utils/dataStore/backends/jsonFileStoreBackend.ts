@@ -0,0 +1,147 @@
+import path from 'path';
+import {
+  TEST_DATA_STORE_PARAMS,
+  TestDataRecord,
+  TestDataStoreBackend,
+} from '../../../models/api/testDataStore.interface';
+import { ErrorCategory } from '../../../models/utils/errorCategory.enum';
+import { AppError } from '../../errors/AppError';
+import AsyncFileManager from '../../fileManagers/asyncFileManager';
+import FileLock from '../../fileManagers/fileLock';
+
+type StoreContent = Record<string, Record<string, TestDataRecord>>;
+
+/**
+ * Keeps test data in a JSON file, so every worker and every later run sees the same data.
+ *
+ * Changes are read-modify-write cycles under a FileLock. The file is replaced by renaming a
+ * temporary file over it, so reads never see a half-written store and do not need the lock.
+ */
+export class JsonFileStoreBackend implements TestDataStoreBackend {
+  public readonly mode = 'file';
+
+  private readonly filePath: string;
+
+  /**
+   * @param filePath - The store file, relative to the working directory
+   */
+  constructor(filePath: string = TEST_DATA_STORE_PARAMS.FILE_PATH) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  public getFilePath(): string {
+    return this.filePath;
+  }
+
+  /**
+   * @throws AppError with ErrorCategory.PARSING if the store file is not a JSON object.
+   */
+  public async get(namespace: string, testId: string): Promise<TestDataRecord | undefined> {
+    return (await this.read())[namespace]?.[testId];
+  }
+
+  /**
+   * @throws AppError with ErrorCategory.PARSING if the store file is not a JSON object.
+   */
+  public async list(namespace: string): Promise<Record<string, TestDataRecord>> {
+    return (await this.read())[namespace] ?? {};
+  }
+
+  /**
+   * @throws AppError with ErrorCategory.TIMEOUT if the store stays locked by another worker.
+   */
+  public async update(
+    namespace: string,
+    testId: string,
+    update: (current: TestDataRecord | undefined) => TestDataRecord,
+  ): Promise<TestDataRecord> {
+    return this.change((content) => {
+      const records = content[namespace] ?? {};
+      const record = update(records[testId]);
+
+      content[namespace] = { ...records, [testId]: record };
+      return record;
+    });
+  }
+
+  public async delete(namespace: string, testId: string): Promise<boolean> {
+    return this.change((content) => {
+      const records = content[namespace];
+      if (!records || !Object.prototype.hasOwnProperty.call(records, testId)) {
+        return false;
+      }
+
+      delete records[testId];
+      return true;
+    });
+  }
+
+  public async clear(namespace?: string): Promise<void> {
+    await this.change((content) => {
+      for (const key of Object.keys(content)) {
+        if (namespace === undefined || key === namespace) {
+          delete content[key];
+        }
+      }
+    });
+  }
+
+  /**
+   * Applies a change to the stored content while holding the lock, and writes the result.
+   */
+  private async change<T>(apply: (content: StoreContent) => T): Promise<T> {
+    return FileLock.withLock(
+      this.filePath,
+      async () => {
+        const content = await this.read();
+        const result = apply(content);
+        await this.write(content);
+        return result;
+      },
+      {
+        timeoutMs: TEST_DATA_STORE_PARAMS.LOCK_TIMEOUT_MS,
+        retryDelayMs: TEST_DATA_STORE_PARAMS.LOCK_RETRY_DELAY_MS,
+        staleMs: TEST_DATA_STORE_PARAMS.STALE_LOCK_MS,
+      },
+    );
+  }
+
+  private async read(): Promise<StoreContent> {
+    if (!(await AsyncFileManager.doesFileExist(this.filePath))) {
+      return {};
+    }
+
+    const text = await AsyncFileManager.readFile(this.filePath);
+    let content: unknown;
+    try {
+      content = JSON.parse(text || '{}');
+    } catch (error) {
+      throw new AppError(
+        ErrorCategory.PARSING,
+        { filePath: this.filePath, reason: error instanceof Error ? error.message : String(error) },
+        `Test data store ${this.filePath} is not valid JSON`,
+      );
+    }
+
+    if (content === null || typeof content !== 'object' || Array.isArray(content)) {
+      throw new AppError(
+        ErrorCategory.PARSING,
+        { filePath: this.filePath },
+        `Test data store ${this.filePath} must be a JSON object of namespaces`,
+      );
+    }
+
+    return content as StoreContent;
+  }
+
+  private async write(content: StoreContent): Promise<void> {
+    const temporaryPath = `${this.filePath}.${process.pid}.tmp`;
+
+    await AsyncFileManager.writeFile(
+      temporaryPath,
+      JSON.stringify(content, null, 2),
+      'test data store',
+    );
+    await AsyncFileManager.moveFile(temporaryPath, this.filePath);
+  }
+}
@@ -0,0 +1,45 @@
+import { TestDataRecord, TestDataStoreBackend } from '../../../models/api/testDataStore.interface';
+
+/**
+ * Keeps test data in the memory of the current worker. Data stored by one worker
+ * is not visible to the others and is lost when the worker exits.
+ */
+export class MemoryStoreBackend implements TestDataStoreBackend {
+  public readonly mode = 'memory';
+
+  private readonly namespaces = new Map<string, Map<string, TestDataRecord>>();
+
+  public async get(namespace: string, testId: string): Promise<TestDataRecord | undefined> {
+    const record = this.namespaces.get(namespace)?.get(testId);
+    return record && structuredClone(record);
+  }
+
+  public async list(namespace: string): Promise<Record<string, TestDataRecord>> {
+    return structuredClone(Object.fromEntries(this.namespaces.get(namespace) ?? []));
+  }
+
+  public async update(
+    namespace: string,
+    testId: string,
+    update: (current: TestDataRecord | undefined) => TestDataRecord,
+  ): Promise<TestDataRecord> {
+    const records = this.namespaces.get(namespace) ?? new Map<string, TestDataRecord>();
+    const record = structuredClone(update(await this.get(namespace, testId)));
+
+    records.set(testId, record);
+    this.namespaces.set(namespace, records);
+    return structuredClone(record);
+  }
+
+  public async delete(namespace: string, testId: string): Promise<boolean> {
+    return this.namespaces.get(namespace)?.delete(testId) ?? false;
+  }
+
+  public async clear(namespace?: string): Promise<void> {
+    if (namespace === undefined) {
+      this.namespaces.clear();
+    } else {
+      this.namespaces.delete(namespace);
+    }
+  }
+}
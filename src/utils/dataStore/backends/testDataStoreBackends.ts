@@ -0,0 +1,34 @@
+import { JsonFileStoreBackend } from './jsonFileStoreBackend';
+import { MemoryStoreBackend } from './memoryStoreBackend';
+import { TestDataStoreBackend } from '../../../models/api/testDataStore.interface';
+import TestDataStoreFlag from '../../environment/testDataStoreFlag';
+import logger from '../../logging/loggerManager';
+
+/**
+ * Holds the backend TestDataMaps use unless they are given their own.
+ */
+export default class TestDataStoreBackends {
+  private static backend: TestDataStoreBackend | null = null;
+
+  /**
+   * Gets the shared backend, creating it from TEST_DATA_STORE on first use
+   * @throws Will throw an error if TEST_DATA_STORE holds an unknown mode.
+   */
+  public static getDefault(): TestDataStoreBackend {
+    if (!this.backend) {
+      this.backend =
+        TestDataStoreFlag.getMode() === 'file'
+          ? new JsonFileStoreBackend()
+          : new MemoryStoreBackend();
+      logger.debug(`Test data store uses the ${this.backend.mode} backend`);
+    }
+    return this.backend;
+  }
+
+  /**
+   * Replaces the shared backend, e.g. with a JsonFileStoreBackend on another file.
+   */
+  public static setDefault(backend: TestDataStoreBackend): void {
+    this.backend = backend;
+  }
+}
@@ -1,3 +1,4 @@
+import { TestDataMap } from './testDataMap';
 import { ValidTokenResponse, BookingResponse } from './../../../models/api/booking.interface';
 import { StorableObject } from '../../../models/api/testDataStore.types';
 
@@ -5,6 +6,6 @@ import { StorableObject } from '../../../models/api/testDataStore.types';
  * Create and export the Booking related data stores
  */
 export const BookingMap = {
-  token: new Map<string, ValidTokenResponse & StorableObject>(),
-  booking: new Map<string, BookingResponse & StorableObject>(),
+  token: new TestDataMap<ValidTokenResponse & StorableObject>('token'),
+  booking: new TestDataMap<BookingResponse & StorableObject>('booking'),
 };
@@ -0,0 +1,59 @@
+import TestDataStoreBackends from '../backends/testDataStoreBackends';
+import { TestDataRecord, TestDataStoreBackend } from '../../../models/api/testDataStore.interface';
+
+/**
+ * A named group of test data records of one shape, keyed by test ID. The records live in a
+ * TestDataStoreBackend, so depending on TEST_DATA_STORE they are shared by all workers and runs.
+ */
+export class TestDataMap<T extends object> {
+  /**
+   * @param namespace - Name the records are stored under; unique per map
+   * @param backend - Storage to use instead of the shared default backend
+   */
+  constructor(
+    public readonly namespace: string,
+    private readonly backend?: TestDataStoreBackend,
+  ) {}
+
+  public async get(testId: string): Promise<T | undefined> {
+    return (await this.getBackend().get(this.namespace, testId)) as T | undefined;
+  }
+
+  /**
+   * @returns Every record of the map, keyed by test ID
+   */
+  public async entries(): Promise<Record<string, T>> {
+    return (await this.getBackend().list(this.namespace)) as Record<string, T>;
+  }
+
+  /**
+   * Replaces the record of a test ID with the result of `update`, atomically across workers.
+   * @returns The stored record
+   */
+  public async update(testId: string, update: (current: T | undefined) => T): Promise<T> {
+    return (await this.getBackend().update(
+      this.namespace,
+      testId,
+      (current) => update(current as T | undefined) as TestDataRecord,
+    )) as T;
+  }
+
+  public async has(testId: string): Promise<boolean> {
+    return (await this.get(testId)) !== undefined;
+  }
+
+  /**
+   * @returns True if a record was removed
+   */
+  public async delete(testId: string): Promise<boolean> {
+    return this.getBackend().delete(this.namespace, testId);
+  }
+
+  public async clear(): Promise<void> {
+    await this.getBackend().clear(this.namespace);
+  }
+
+  private getBackend(): TestDataStoreBackend {
+    return this.backend ?? TestDataStoreBackends.getDefault();
+  }
+}
@@ -13,3 +13,7 @@ export enum BookingFlowTestIds {
   REQUEST_TOKEN_WITH_VALID_CREDENTIALS = 'request_token_with_valid_credentials',
   STORE_BOOKING_ID = 'store_booking_id',
 }
+
+export enum SharedTestIds {
+  SETUP_BOOKING = 'setup_booking',
+}
@@ -1,9 +1,10 @@
-import { TokenTestIds, BookingTestIds, BookingFlowTestIds } from './bookingTestIds';
+import { TokenTestIds, BookingTestIds, BookingFlowTestIds, SharedTestIds } from './bookingTestIds';
 
 export const TEST_CONSTANTS = Object.freeze({
   TEST_IDS: {
     tokenTestIds: TokenTestIds,
     bookingTestIds: BookingTestIds,
     bookingFlowTestIds: BookingFlowTestIds,
+    sharedTestIds: SharedTestIds,
   },
 });
@@ -1,25 +1,25 @@
 import ErrorHandler from '../../errors/errorHandler';
+import { TestDataMap } from '../maps/testDataMap';
 import { StorableObject } from '../../../models/api/testDataStore.types';
 import logger from '../../logging/loggerManager';
 
 export default class TestDataStore {
   /**
    * Sets a value in the data map for a given testId.
+   * Other keys of the testId are kept, also when another worker sets them at the same time.
    */
-  public static setValue<T extends StorableObject, K extends keyof T>(
-    map: Map<string, T>,
+  public static async setValue<T extends StorableObject, K extends keyof T>(
+    map: TestDataMap<T>,
     testId: string,
     key: K,
     value: T[K],
-  ): boolean {
+  ): Promise<boolean> {
     if (!testId || !key) {
       ErrorHandler.logAndThrow('Invalid testId or key provided to setValue.', 'setValue');
     }
 
     try {
-      const dataForId = map.get(testId) ?? ({} as T);
-      dataForId[key] = value;
-      map.set(testId, dataForId);
+      await map.update(testId, (dataForId = {} as T) => ({ ...dataForId, [key]: value }));
       logger.debug(`Key "${String(key)}" set for testId: "${testId}".`);
       return true;
     } catch (error) {
@@ -35,19 +35,19 @@ export default class TestDataStore {
   /**
    * Retrieves a value from the data map for a given testId.
    */
-  public static getValue<T extends StorableObject, K extends keyof T>(
-    map: Map<string, T>,
+  public static async getValue<T extends StorableObject, K extends keyof T>(
+    map: TestDataMap<T>,
     testId: string,
     key: K,
     throwIfMissing = false,
     defaultValue?: T[K],
-  ): T[K] | undefined {
+  ): Promise<T[K] | undefined> {
     if (!testId || !key) {
       throw new Error(`Invalid testId or key provided to getValue.`);
     }
 
     try {
-      const dataForId = map.get(testId);
+      const dataForId = await map.get(testId);
 
       // If no data exists for this testId
       if (!dataForId) {
@@ -85,13 +85,13 @@ export default class TestDataStore {
   /**
    * Checks if a specific field exists for a testId.
    */
-  public static hasField<T extends StorableObject, K extends keyof T>(
-    map: Map<string, T>,
+  public static async hasField<T extends StorableObject, K extends keyof T>(
+    map: TestDataMap<T>,
     testId: string,
     key: K,
-  ): boolean {
+  ): Promise<boolean> {
     try {
-      const dataForId = map.get(testId);
+      const dataForId = await map.get(testId);
       return Boolean(dataForId && Object.prototype.hasOwnProperty.call(dataForId, key));
     } catch (error) {
       ErrorHandler.captureError(
@@ -106,9 +106,12 @@ export default class TestDataStore {
   /**
    * Checks if a testId exists in the data map.
    */
-  public static hasTest<T extends StorableObject>(map: Map<string, T>, testId: string): boolean {
+  public static async hasTest<T extends StorableObject>(
+    map: TestDataMap<T>,
+    testId: string,
+  ): Promise<boolean> {
     try {
-      return map.has(testId);
+      return await map.has(testId);
     } catch (error) {
       ErrorHandler.captureError(error, 'hasTest', `Failed to check testId: ${testId}`);
       throw error;
@@ -118,9 +121,12 @@ export default class TestDataStore {
   /**
    * Removes a testId from the data map.
    */
-  public static removeTest<T extends StorableObject>(map: Map<string, T>, testId: string): boolean {
+  public static async removeTest<T extends StorableObject>(
+    map: TestDataMap<T>,
+    testId: string,
+  ): Promise<boolean> {
     try {
-      return map.delete(testId);
+      return await map.delete(testId);
     } catch (error) {
       ErrorHandler.captureError(error, 'removeTest', `Failed to remove testId: ${testId}`);
       throw error;
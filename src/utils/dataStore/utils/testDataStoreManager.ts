@@ -1,4 +1,5 @@
 import ErrorHandler from '../../errors/errorHandler';
+import { TestDataMap } from '../maps/testDataMap';
 import logger from '../../logging/loggerManager';
 
 export default class TestDataStoreManager {
@@ -12,18 +13,16 @@ export default class TestDataStoreManager {
    * @returns true if the operation was successful
    * @throws {Error} If inputs are invalid or operation fails
    */
-  public static setValue<T extends Record<string, string | number |  null>>(
-    map: Map<string, T>,
+  public static async setValue<T extends Record<string, string | number | null>>(
+    map: TestDataMap<T>,
     testId: string,
     key: keyof T,
     value: string | number,
-  ): boolean {
+  ): Promise<boolean> {
     this.validateInputs(testId, key, 'setValue');
 
     try {
-      const dataForId = this.getDataForTest(map, testId);
-      dataForId[key] = value as T[keyof T];
-      map.set(testId, dataForId);
+      await map.update(testId, (dataForId = {} as T) => ({ ...dataForId, [key]: value }));
       logger.info(`Key "${String(key)}" set for testId: "${testId}".`);
       return true;
     } catch (error) {
@@ -47,22 +46,22 @@ export default class TestDataStoreManager {
    * @returns The value associated with the key, or defaultValue if not found
    * @throws {Error} If testId/key is invalid, or if key is missing and throwIfMissing is true
    */
-  public static getValue<T extends Record<string, string | number | null>>(
-    map: Map<string, T>,
+  public static async getValue<T extends Record<string, string | number | null>>(
+    map: TestDataMap<T>,
     testId: string,
     key: keyof T,
     throwIfMissing: boolean = false,
     defaultValue: string | number | null = null,
-  ): string | number | null {
+  ): Promise<string | number | null> {
     this.validateInputs(testId, key, 'getValue');
 
     try {
-      if (!map.has(testId)) {
+      const dataForId = await map.get(testId);
+
+      if (dataForId === undefined) {
         return this.handleMissingTest(testId, throwIfMissing, defaultValue);
       }
 
-      const dataForId = map.get(testId);
-
       if (!this.validateDataFormat(dataForId, testId, throwIfMissing)) {
         return defaultValue;
       }
@@ -90,13 +89,13 @@ export default class TestDataStoreManager {
    * @param key - The key to check
    * @returns true if the field exists, false otherwise
    */
-  public static hasField<T extends Record<string, string | number | null>>(
-    map: Map<string, T>,
+  public static async hasField<T extends Record<string, string | number | null>>(
+    map: TestDataMap<T>,
     testId: string,
     key: keyof T,
-  ): boolean {
+  ): Promise<boolean> {
     try {
-      const dataForId = map.get(testId);
+      const dataForId = await map.get(testId);
       return Boolean(dataForId && Object.prototype.hasOwnProperty.call(dataForId, key));
     } catch (error) {
       ErrorHandler.captureError(
@@ -115,9 +114,12 @@ export default class TestDataStoreManager {
    * @param testId - The identifier of the test to check for
    * @returns true if the testId exists in the map; false otherwise
    */
-  public static hasTest<T>(map: Map<string, T>, testId: string): boolean {
+  public static async hasTest<T extends object>(
+    map: TestDataMap<T>,
+    testId: string,
+  ): Promise<boolean> {
     try {
-      return map.has(testId);
+      return await map.has(testId);
     } catch (error) {
       ErrorHandler.captureError(
         error,
@@ -135,9 +137,12 @@ export default class TestDataStoreManager {
    * @param testId - The identifier of the test to remove from the map
    * @returns true if the operation was successful, false otherwise
    */
-  public static removeTest<T>(map: Map<string, T>, testId: string): boolean {
+  public static async removeTest<T extends object>(
+    map: TestDataMap<T>,
+    testId: string,
+  ): Promise<boolean> {
     try {
-      return map.delete(testId);
+      return await map.delete(testId);
     } catch (error) {
       ErrorHandler.captureError(
         error,
@@ -161,11 +166,6 @@ export default class TestDataStoreManager {
     }
   }
 
-  /** Retrieves existing test data or initializes a new object */
-  private static getDataForTest<T>(map: Map<string, T>, testId: string): T {
-    return map.get(testId) ?? ({} as T);
-  }
-
   /**
    * Handles the case when a test ID does not exist in the map
    *
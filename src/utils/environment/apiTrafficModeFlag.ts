@@ -0,0 +1,36 @@
+import { ApiTrafficMode } from '../../models/api/trafficRecording.interface';
+import ErrorHandler from '../errors/errorHandler';
+
+export default class ApiTrafficModeFlag {
+  private static readonly MODES: ApiTrafficMode[] = ['live', 'record', 'replay'];
+
+  /**
+   * Determines how ApiClient traffic is handled: sent live, sent live and
+   * recorded to HAR files, or replayed from previously recorded HAR files.
+   *
+   * Controlled by the environment variable: API_TRAFFIC_MODE (defaults to live)
+   *
+   * @returns The configured traffic mode.
+   * @throws Will throw an error if the variable holds an unknown mode.
+   */
+  public static getMode(): ApiTrafficMode {
+    const mode = (process.env.API_TRAFFIC_MODE || 'live').toLowerCase() as ApiTrafficMode;
+
+    if (!this.MODES.includes(mode)) {
+      ErrorHandler.logAndThrow(
+        `Invalid API_TRAFFIC_MODE '${process.env.API_TRAFFIC_MODE}'. Expected one of: ${this.MODES.join(', ')}`,
+        'getMode',
+      );
+    }
+
+    return mode;
+  }
+
+  public static isRecording(): boolean {
+    return this.getMode() === 'record';
+  }
+
+  public static isReplaying(): boolean {
+    return this.getMode() === 'replay';
+  }
+}
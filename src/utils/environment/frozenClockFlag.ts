@@ -0,0 +1,28 @@
+import ErrorHandler from '../errors/errorHandler';
+
+export default class FrozenClockFlag {
+  /**
+   * Gets the time the clock should be frozen at, so date-based test data is the same on every run.
+   *
+   * Controlled by the environment variable: FROZEN_CLOCK_AT (an ISO 8601 time, e.g. 2028-02-28T10:00:00Z)
+   *
+   * @returns The time, or undefined if the variable is not set.
+   * @throws Will throw an error if the variable is not a valid ISO 8601 time.
+   */
+  public static getFrozenAt(): Date | undefined {
+    const value = process.env.FROZEN_CLOCK_AT;
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+
+    const frozenAt = new Date(value);
+    if (Number.isNaN(frozenAt.getTime())) {
+      ErrorHandler.logAndThrow(
+        `Invalid FROZEN_CLOCK_AT '${value}'. Expected an ISO 8601 time such as 2028-02-28T10:00:00Z`,
+        'getFrozenAt',
+      );
+    }
+
+    return frozenAt;
+  }
+}
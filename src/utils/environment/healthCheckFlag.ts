@@ -0,0 +1,21 @@
+import ApiTrafficModeFlag from './apiTrafficModeFlag';
+import StandInServerFlag from './standInServerFlag';
+
+export default class HealthCheckFlag {
+  /**
+   * Determines whether the suite-level API health check should be skipped.
+   * The check is pointless when the tests do not talk to the configured host:
+   * against the stand-in server, in replay mode, or for crypto-only runs.
+   *
+   * Controlled by the environment variable: SKIP_HEALTH_CHECK
+   *
+   * @returns True if the health check should be skipped.
+   */
+  public static shouldSkipHealthCheck(): boolean {
+    return (
+      process.env.SKIP_HEALTH_CHECK?.toLowerCase() === 'true' ||
+      StandInServerFlag.shouldUseStandInServer() ||
+      ApiTrafficModeFlag.isReplaying()
+    );
+  }
+}
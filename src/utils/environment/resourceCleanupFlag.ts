@@ -0,0 +1,13 @@
+export default class ResourceCleanupFlag {
+  /**
+   * Determines whether resources created by a test are kept on the server after the test,
+   * e.g. to inspect them while debugging, instead of being deleted in the fixture teardown.
+   *
+   * Controlled by the environment variable: KEEP_CREATED_RESOURCES
+   *
+   * @returns True if created resources should not be deleted.
+   */
+  public static shouldKeepCreatedResources(): boolean {
+    return process.env.KEEP_CREATED_RESOURCES?.toLowerCase() === 'true';
+  }
+}
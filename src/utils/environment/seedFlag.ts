@@ -0,0 +1,32 @@
+import ErrorHandler from '../errors/errorHandler';
+
+export default class SeedFlag {
+  private static readonly MAX_SEED = 2 ** 32 - 1;
+
+  /**
+   * Reads a random seed from the environment, so generated test data can be replayed
+   * by setting the variable to the seed a previous run logged.
+   *
+   * Controlled by the given environment variable, e.g. TEST_DATA_SEED or FUZZ_SEED
+   *
+   * @param variable - Name of the environment variable
+   * @returns The seed, or undefined if the variable is not set.
+   * @throws Will throw an error if the variable is not a 32-bit unsigned integer.
+   */
+  public static getSeed(variable: string): number | undefined {
+    const value = process.env[variable];
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+
+    const seed = Number(value);
+    if (!Number.isInteger(seed) || seed < 0 || seed > this.MAX_SEED) {
+      ErrorHandler.logAndThrow(
+        `Invalid ${variable} '${value}'. Expected an integer from 0 to ${this.MAX_SEED}`,
+        'getSeed',
+      );
+    }
+
+    return seed;
+  }
+}
@@ -0,0 +1,14 @@
+export default class StandInServerFlag {
+  /**
+   * Determines whether the API tests should run against the bundled
+   * Restful Booker stand-in server instead of the configured host.
+   * This is useful for air-gapped agents or when the public demo is down.
+   *
+   * Controlled by the environment variable: USE_STAND_IN_SERVER
+   *
+   * @returns True if the stand-in server should be started.
+   */
+  public static shouldUseStandInServer(): boolean {
+    return process.env.USE_STAND_IN_SERVER?.toLowerCase() === 'true';
+  }
+}
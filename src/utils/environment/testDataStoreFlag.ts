@@ -0,0 +1,28 @@
+import { TestDataStoreMode } from '../../models/api/testDataStore.interface';
+import ErrorHandler from '../errors/errorHandler';
+
+export default class TestDataStoreFlag {
+  private static readonly MODES: TestDataStoreMode[] = ['memory', 'file'];
+
+  /**
+   * Determines where TestDataStore keeps its data: in the memory of each worker,
+   * or in a JSON file shared by all workers and runs.
+   *
+   * Controlled by the environment variable: TEST_DATA_STORE (defaults to memory)
+   *
+   * @returns The configured store mode.
+   * @throws Will throw an error if the variable holds an unknown mode.
+   */
+  public static getMode(): TestDataStoreMode {
+    const mode = (process.env.TEST_DATA_STORE || 'memory').toLowerCase() as TestDataStoreMode;
+
+    if (!this.MODES.includes(mode)) {
+      ErrorHandler.logAndThrow(
+        `Invalid TEST_DATA_STORE '${process.env.TEST_DATA_STORE}'. Expected one of: ${this.MODES.join(', ')}`,
+        'getMode',
+      );
+    }
+
+    return mode;
+  }
+}
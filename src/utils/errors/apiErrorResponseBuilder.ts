@@ -2,7 +2,6 @@ import { ErrorCategory } from '../../models/utils/errorCategory.enum';
 import axios from 'axios';
 import { AppError } from './AppError';
 import { AppErrorLike } from '../../models/utils/errorHandler.interface';
-import RequestContext from '../../api/context/requestContext';
 import ErrorHandler from './errorHandler';
 import logger from '../logging/loggerManager';
 
@@ -25,7 +24,7 @@ export default class ApiErrorResponseBuilder {
     details?: Record<string, unknown>;
   } {
     // Log the error first (unless it's an expected error in a negative test)
-    if (!this.isExpectedNegativeTestError(error, source)) {
+    if (!this.isExpectedNegativeTestError(error)) {
       // ErrorHandler will handle sanitization of sensitive data
       ErrorHandler.captureError(error, source, context);
     }
@@ -49,7 +48,7 @@ export default class ApiErrorResponseBuilder {
    * Handle errors in negative test scenarios
    */
   public static handleNegativeTestError(error: unknown, methodName: string): void {
-    if (this.isExpectedNegativeTestError(error, methodName)) {
+    if (this.isExpectedNegativeTestError(error)) {
       // Log expected error details
       const statusCode = axios.isAxiosError(error) ? error.response?.status : undefined;
       logger.info(`Expected error in negative test for ${methodName}: Status Code ${statusCode}`);
@@ -104,6 +103,7 @@ export default class ApiErrorResponseBuilder {
           url: error.config?.url,
           method: error.config?.method,
         },
+        ...(error.config?.attempts ? { attempts: error.config.attempts } : {}),
       };
     }
 
@@ -137,17 +137,15 @@ export default class ApiErrorResponseBuilder {
   }
 
   /**
-   * Determine if an error is expected in a negative test scenario
+   * Determine if an error is expected in a negative test scenario, by the expectation
+   * its request was sent with
    */
-  private static isExpectedNegativeTestError(error: unknown, context: string): boolean {
-    if (!context || !axios.isAxiosError(error) || !error.response?.status) {
+  private static isExpectedNegativeTestError(error: unknown): boolean {
+    if (!axios.isAxiosError(error) || !error.response?.status) {
       return false;
     }
 
-    return (
-      RequestContext.isExpectedStatus(context, error.response.status) &&
-      RequestContext.isNegativeTest(context)
-    );
+    return error.config?.expectation?.isExpectedRejection(error.response.status) ?? false;
   }
 
   /**
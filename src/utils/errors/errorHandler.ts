@@ -1,5 +1,4 @@
 import axios from 'axios';
-import RequestContext from '../../api/context/requestContext';
 import { ErrorCategory } from '../../models/utils/errorCategory.enum';
 import logger from '../logging/loggerManager';
 import ErrorHandlerHelpers from './errorProcessor';
@@ -18,7 +17,7 @@ export default class ErrorHandler {
   public static captureError(error: unknown, source: string, context?: string): void {
     try {
       // Skip error logging if this is an expected error in a negative test
-      if (this.shouldSkipErrorLogging(error, context)) {
+      if (this.shouldSkipErrorLogging(error)) {
         // Log as info instead of error for expected negative test results
         if (axios.isAxiosError(error) && error.response?.status) {
           logger.info(
@@ -114,16 +113,11 @@ export default class ErrorHandler {
   }
 
   /**
-   * Check if error should be skipped based on request context
+   * Check if error should be skipped because its request expected to be rejected with its status
    */
-  private static shouldSkipErrorLogging(error: unknown, context?: string): boolean {
-    if (!context) return false;
-
+  private static shouldSkipErrorLogging(error: unknown): boolean {
     if (axios.isAxiosError(error) && error.response?.status) {
-      return (
-        RequestContext.isExpectedStatus(context, error.response.status) &&
-        RequestContext.isNegativeTest(context)
-      );
+      return error.config?.expectation?.isExpectedRejection(error.response.status) ?? false;
     }
 
     return false;
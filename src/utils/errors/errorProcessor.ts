@@ -513,7 +513,10 @@ export default class ErrorProcessor {
     const statusCode = error.response?.status;
 
     if (!statusCode) {
-      return ErrorCategory.NETWORK;
+      // axios reports its own request timeout as ECONNABORTED (or ETIMEDOUT with clarifyTimeoutError)
+      return error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT'
+        ? ErrorCategory.TIMEOUT
+        : ErrorCategory.NETWORK;
     }
 
     if (statusCode === 401) {
@@ -0,0 +1,147 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { FileLockOptions } from '../../models/utils/fileManager.interface';
+import { ErrorCategory } from '../../models/utils/errorCategory.enum';
+import { AppError } from '../errors/AppError';
+import ErrorHandler from '../errors/errorHandler';
+import logger from '../logging/loggerManager';
+
+/**
+ * Advisory lock on a file, shared by every process on the machine. The lock is a `<file>.lock`
+ * file created exclusively, so exactly one process holds it at a time; the others poll until
+ * it is released. A lock older than `staleMs` is left over from a crashed process and is broken.
+ */
+export default class FileLock {
+  /**
+   * Runs `action` while holding the lock on `filePath` and releases it afterwards,
+   * also when the action throws.
+   *
+   * @param filePath - The file to lock; the lock file is created next to it
+   * @param action - The work to do while holding the lock
+   * @param options - How long to wait for the lock and when a lock counts as stale
+   * @returns The result of the action
+   * @throws AppError with ErrorCategory.TIMEOUT if the lock is not acquired within `timeoutMs`.
+   */
+  public static async withLock<T>(
+    filePath: string,
+    action: () => Promise<T>,
+    options: FileLockOptions,
+  ): Promise<T> {
+    const lockPath = `${filePath}.lock`;
+    await this.acquire(lockPath, options);
+
+    try {
+      return await action();
+    } finally {
+      await this.release(lockPath);
+    }
+  }
+
+  private static async acquire(
+    lockPath: string,
+    { timeoutMs, retryDelayMs, staleMs }: FileLockOptions,
+  ): Promise<void> {
+    const deadline = Date.now() + timeoutMs;
+    await fs.promises.mkdir(path.dirname(lockPath), { recursive: true });
+
+    for (;;) {
+      try {
+        const handle = await fs.promises.open(lockPath, 'wx');
+        await handle.writeFile(String(process.pid));
+        await handle.close();
+        return;
+      } catch (error) {
+        if (!this.isAlreadyLocked(error)) {
+          ErrorHandler.captureError(error, 'acquire', `Failed to create lock file ${lockPath}`);
+          throw error;
+        }
+      }
+
+      if (await this.breakIfStale(lockPath, staleMs)) {
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new AppError(
+          ErrorCategory.TIMEOUT,
+          { lockPath, timeoutMs },
+          `Timed out after ${timeoutMs}ms waiting for the lock ${lockPath}`,
+        );
+      }
+      await new Promise((resolve) => setTimeout(resolve, retryDelayMs));
+    }
+  }
+
+  /**
+   * Breaks a stale lock by renaming it to a name of its own, which only one waiter can do.
+   * If the renamed file is not the stale lock that was seen, another waiter broke that lock and
+   * took a fresh one in the meantime; the fresh lock is then put back.
+   *
+   * @returns True if the lock was stale and has been removed, or was removed by another process
+   */
+  private static async breakIfStale(lockPath: string, staleMs: number): Promise<boolean> {
+    const brokenPath = `${lockPath}.${process.pid}.${crypto.randomUUID()}.stale`;
+
+    try {
+      const stale = await fs.promises.stat(lockPath);
+      if (Date.now() - stale.mtimeMs < staleMs) {
+        return false;
+      }
+
+      await fs.promises.rename(lockPath, brokenPath);
+      const broken = await fs.promises.stat(brokenPath);
+      if (broken.ino !== stale.ino || broken.mtimeMs !== stale.mtimeMs) {
+        await this.restore(brokenPath, lockPath);
+        return false;
+      }
+
+      logger.warn(`Breaking stale lock ${lockPath}, older than ${staleMs}ms`);
+      await fs.promises.unlink(brokenPath);
+      return true;
+    } catch (error) {
+      // Released by its holder, or broken by another waiter, in the meantime
+      if (this.isMissing(error)) {
+        return true;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Puts back a fresh lock that was renamed while breaking a stale one. Linking never replaces
+   * a lock another process has taken since.
+   */
+  private static async restore(brokenPath: string, lockPath: string): Promise<void> {
+    try {
+      await fs.promises.link(brokenPath, lockPath);
+    } catch (error) {
+      if (!this.isAlreadyLocked(error)) {
+        ErrorHandler.captureError(error, 'restore', `Failed to restore lock file ${lockPath}`);
+        throw error;
+      }
+      logger.warn(`Lock ${lockPath} was taken while restoring it; two processes may hold it`);
+    } finally {
+      await fs.promises.unlink(brokenPath);
+    }
+  }
+
+  private static async release(lockPath: string): Promise<void> {
+    try {
+      await fs.promises.unlink(lockPath);
+    } catch (error) {
+      if (!this.isMissing(error)) {
+        ErrorHandler.captureError(error, 'release', `Failed to release lock file ${lockPath}`);
+        throw error;
+      }
+    }
+  }
+
+  private static isAlreadyLocked(error: unknown): boolean {
+    return error instanceof Error && 'code' in error && error.code === 'EEXIST';
+  }
+
+  private static isMissing(error: unknown): boolean {
+    return error instanceof Error && 'code' in error && error.code === 'ENOENT';
+  }
+}
@@ -0,0 +1,32 @@
+import logger from '../logging/loggerManager';
+
+export default class Clock {
+  private static frozenAt: Date | null = null;
+
+  /**
+   * Gets the current time, or the frozen time if the clock has been frozen.
+   * Test data that depends on "today" should read the time from here instead of `new Date()`.
+   *
+   * @returns A new Date instance for the current (or frozen) time.
+   */
+  public static now(): Date {
+    return new Date(this.frozenAt ? this.frozenAt.getTime() : Date.now());
+  }
+
+  /**
+   * Freezes the clock at the given time until unfreeze() is called.
+   * @param at - The time the clock should report
+   */
+  public static freeze(at: Date): void {
+    this.frozenAt = new Date(at.getTime());
+    logger.debug(`Clock frozen at ${this.frozenAt.toISOString()}`);
+  }
+
+  public static unfreeze(): void {
+    this.frozenAt = null;
+  }
+
+  public static isFrozen(): boolean {
+    return this.frozenAt !== null;
+  }
+}
@@ -0,0 +1,18 @@
+import path from 'path';
+import { test } from '../../fixtures/restfulBooker.fixture';
+import { DATASET_PARAMS } from '../../src/models/api/bookingDataset.interface';
+import BookingDataset from '../../src/testData/loaders/bookingDataset';
+import logger from '../../src/utils/logging/loggerManager';
+
+const DATASETS = ['bookings.csv', 'bookings.json', 'bookings.yaml'];
+
+for (const dataset of DATASETS) {
+  test.describe(`Booking Dataset ${dataset} @regression`, () => {
+    for (const row of BookingDataset.loadSync(path.join(DATASET_PARAMS.DIRECTORY, dataset))) {
+      test(BookingDataset.getTestTitle(row), async ({ booking }) => {
+        await booking.createBookingFromDataset(row);
+        logger.info(`Booking dataset row '${row.title}' completed successfully.`);
+      });
+    }
+  });
+}
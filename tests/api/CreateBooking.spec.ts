@@ -1,9 +1,82 @@
-import { test } from '../../fixtures/restfulBooker.fixture';
+import { expect, test } from '../../fixtures/restfulBooker.fixture';
+import { assertThat } from '../../src/api/validators/responseAssertion';
+import { API_INTERCEPTOR_PARAMS } from '../../src/models/api/apiInterceptor.interface';
+import { BookingDates } from '../../src/models/api/booking.interface';
+import { BookingDateGenerator } from '../../src/testData/bookingDateGenerator';
 import logger from '../../src/utils/logging/loggerManager';
+import Clock from '../../src/utils/time/clock';
+
+// Friday 2028-02-25 20:00 UTC is already Saturday 2028-02-26 09:00 in Auckland (UTC+13)
+const STAY_CLOCK = new Date('2028-02-25T20:00:00Z');
+const STAY_TIME_ZONE = 'Pacific/Auckland';
+
+const STAYS: Record<string, { create: () => BookingDates; expected: BookingDates }> = {
+  // The next Friday to Sunday in Auckland, not the Friday it still is in UTC
+  weekend: {
+    create: () => BookingDateGenerator.createWeekendStay(),
+    expected: { checkin: '2028-03-03', checkout: '2028-03-05' },
+  },
+  'month boundary': {
+    create: () => BookingDateGenerator.createMonthBoundaryStay(),
+    expected: { checkin: '2028-02-29', checkout: '2028-03-02' },
+  },
+  'year boundary': {
+    create: () => BookingDateGenerator.createYearBoundaryStay(),
+    expected: { checkin: '2028-12-31', checkout: '2029-01-02' },
+  },
+  'leap day': {
+    create: () => BookingDateGenerator.createLeapDayStay(),
+    expected: { checkin: '2028-02-28', checkout: '2028-03-01' },
+  },
+  'past-dated': {
+    create: () => BookingDateGenerator.createPastStay(),
+    expected: { checkin: '2028-02-24', checkout: '2028-02-25' },
+  },
+  // Today in Auckland
+  'same-day': {
+    create: () => BookingDateGenerator.createSameDayStay(),
+    expected: { checkin: '2028-02-26', checkout: '2028-02-26' },
+  },
+};
 
 test.describe('Create Booking Test Suite @regression', () => {
   test('should create new booking @sanity', async ({ booking }) => {
     await booking.createNewBooking();
     logger.info('Create new booking completed successfully.');
   });
+
+  test.describe('Stays', () => {
+    test.beforeEach(() => {
+      Clock.freeze(STAY_CLOCK);
+      BookingDateGenerator.useTimeZone(STAY_TIME_ZONE);
+    });
+
+    test.afterEach(() => {
+      BookingDateGenerator.resetTimeZone();
+      Clock.unfreeze();
+    });
+
+    for (const [stay, { create, expected }] of Object.entries(STAYS)) {
+      test(`should create booking for a ${stay} stay`, async ({ booking, bookingFactory }) => {
+        const bookingDates = create();
+        expect(
+          bookingDates,
+          `${stay} stay on ${STAY_CLOCK.toISOString()} in ${STAY_TIME_ZONE}`,
+        ).toEqual(expected);
+        const payload = bookingFactory.booking().withBookingDates(bookingDates).build();
+
+        const response = await booking.createNewBooking(payload);
+
+        assertThat(response)
+          .hasStatus(200)
+          .hasHeader('content-type', /json/)
+          .body('bookingid')
+          .isNumber()
+          .body('booking.bookingdates')
+          .equals(expected)
+          .respondedWithin(API_INTERCEPTOR_PARAMS.SLOW_REQUEST_THRESHOLD_MS);
+        logger.info(`Create booking for a ${stay} stay completed successfully.`);
+      });
+    }
+  });
 });
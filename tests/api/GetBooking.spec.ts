@@ -1,6 +1,7 @@
-import { test } from '../../fixtures/restfulBooker.fixture';
+import { expect, test } from '../../fixtures/restfulBooker.fixture';
 import { BookingMap } from '../../src/utils/dataStore/maps/bookingMaps';
 import TestDataStore from '../../src/utils/dataStore/utils/testDataStore';
+import { AUTH_STRATEGY_PARAMS } from '../../src/models/api/authStrategy.interface';
 import { StorableObject } from '../../src/models/api/testDataStore.types';
 import ErrorHandler from '../../src/utils/errors/errorHandler';
 import logger from '../../src/utils/logging/loggerManager';
@@ -17,6 +18,23 @@ test.describe('All Booking Test Suite @regression', () => {
 
     logger.info('Create new booking completed successfully.');
   });
+
+  test('should search bookings by name and checkin date', async ({ booking }) => {
+    const response = await booking.createNewBooking();
+    const created = response.data.booking;
+
+    const searchResponse = await booking.searchBookings({
+      firstname: created.firstname,
+      lastname: created.lastname,
+      checkin: created.bookingdates.checkin,
+    });
+
+    expect(searchResponse.data.map(({ bookingid }) => bookingid)).toContain(
+      response.data.bookingid,
+    );
+
+    logger.info('Search bookings completed successfully.');
+  });
 });
 
 test.describe('Get Booking Test Suite @regression', () => {
@@ -24,7 +42,7 @@ test.describe('Get Booking Test Suite @regression', () => {
     // === BOOKING CREATION: Create and store new booking ===
     const response = await booking.createNewBooking();
 
-    TestDataStore.setValue(
+    await TestDataStore.setValue(
       BookingMap.booking,
       testId.TEST_IDS.bookingTestIds.STORE_BOOOKING_ID,
       'responseObject',
@@ -42,65 +60,19 @@ test.describe('Get Booking Test Suite @regression', () => {
     }
   });
 
-  test('should update booking by id @sanity', async ({
-    authenticationToken,
-    booking,
-    testId,
-  }) => {
-    // === AUTHENTICATION: Request and store token ===
-    const tokenResponse = await authenticationToken.requestTokenWithValidCredentials();
-    const token = await authenticationToken.getTokenFromResponse(tokenResponse);
-
-    // === BOOKING CREATION: Create and store new booking ===
-    const newBookingResponse = await booking.createNewBooking();
-
-    TestDataStore.setValue(
-      BookingMap.booking,
-      testId.TEST_IDS.bookingTestIds.STORE_BOOOKING_ID,
-      'responseObject',
-      newBookingResponse.data as StorableObject,
-    );
-
-    const bookingId = newBookingResponse.data.bookingid;
-
-    // === BOOKING UPDATE: Update booking using stored token and bookingId ===
-    if (typeof bookingId === 'number') {
-      await booking.updateBookingById(bookingId, token);
+  for (const strategy of AUTH_STRATEGY_PARAMS.ACCEPTED_STRATEGIES) {
+    test(`should update booking by id with ${strategy} auth @sanity`, async ({ flow }) => {
+      await flow().authenticate(strategy).createBooking().update().verify().run();
 
       logger.info('Update booking by id completed successfully.');
-    } else {
-      ErrorHandler.logAndThrow('Invalid booking ID: must be a number', 'updateBookingById');
-    }
-  });
-
-    test('should partially update booking by id @sanity', async ({
-    authenticationToken,
-    booking,
-    testId,
-  }) => {
-    // === AUTHENTICATION: Request and store token ===
-    const tokenResponse = await authenticationToken.requestTokenWithValidCredentials();
-    const token = await authenticationToken.getTokenFromResponse(tokenResponse);
-
-    // === BOOKING CREATION: Create and store new booking ===
-    const newBookingResponse = await booking.createNewBooking();
-
-    TestDataStore.setValue(
-      BookingMap.booking,
-      testId.TEST_IDS.bookingTestIds.PARTIALLY_UPDATED_BOOKING_DATA,
-      'responseObject',
-      newBookingResponse.data as StorableObject,
-    );
-
-    const bookingId = newBookingResponse.data.bookingid;
+    });
 
-    // === BOOKING PARTIALLY UPDATE: Update booking using stored token and bookingId ===
-    if (typeof bookingId === 'number') {
-      await booking.partiallyUpdateBookingById(bookingId, token);
+    test(`should partially update booking by id with ${strategy} auth @sanity`, async ({
+      flow,
+    }) => {
+      await flow().authenticate(strategy).createBooking().patch().verify().run();
 
       logger.info('Partially update booking by id completed successfully.');
-    } else {
-      ErrorHandler.logAndThrow('Invalid booking ID: must be a number', 'partiallyUpdateBookingById');
-    }
-  });
+    });
+  }
 });
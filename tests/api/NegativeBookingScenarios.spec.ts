@@ -0,0 +1,22 @@
+import { expect, test } from '../../fixtures/restfulBooker.fixture';
+import { NegativeScenarioRunner } from '../../src/api/negative/negativeScenarioRunner';
+import { BookingNegativeScenarios } from '../../src/testData/negative/bookingNegativeScenarios';
+import logger from '../../src/utils/logging/loggerManager';
+
+test.describe('Negative Booking Scenarios @regression', () => {
+  test('should reject every negative booking scenario that is not a known gap', async ({
+    negativeScenarioRunner,
+  }, testInfo) => {
+    const report = await negativeScenarioRunner.run(BookingNegativeScenarios.all());
+    await testInfo.attach('negative-scenarios', {
+      body: JSON.stringify(report, null, 2),
+      contentType: 'application/json',
+    });
+
+    expect(
+      NegativeScenarioRunner.summarize({ ...report, results: report.unexpected }),
+      NegativeScenarioRunner.summarize(report).join('\n'),
+    ).toEqual([]);
+    logger.info('Negative booking scenarios completed successfully.');
+  });
+});
@@ -0,0 +1,74 @@
+import { expect, test } from '../../fixtures/restfulBooker.fixture';
+import { BookingResource, BookingResourceShape } from '../../src/api/resources/bookingResource';
+import { ResourceClient } from '../../src/api/resources/resourceClient';
+import { ResponseBodyMatcher } from '../../src/models/api/requestExpectation.interface';
+import { ErrorCategory } from '../../src/models/utils/errorCategory.enum';
+
+/**
+ * Requires the created booking to carry the given first name.
+ */
+function createdBookingNamed(firstname: string): ResponseBodyMatcher {
+  return {
+    description: `booking.firstname is '${firstname}'`,
+    matches: (body) =>
+      (body as { booking?: { firstname?: string } } | undefined)?.booking?.firstname === firstname,
+  };
+}
+
+test.describe('Request Expectations @regression', () => {
+  let bookings: ResourceClient<BookingResourceShape>;
+
+  test.beforeEach(({ apiClient, bookingEndpointBuilder }) => {
+    bookings = new ResourceClient(apiClient, bookingEndpointBuilder, BookingResource);
+  });
+
+  test('should fail with a validation error when a body matcher does not match', async () => {
+    await expect(
+      bookings.list({
+        expect: {
+          body: [{ description: 'no bookings are listed', matches: (body) => body === null }],
+        },
+      }),
+    ).rejects.toMatchObject({
+      category: ErrorCategory.VALIDATION,
+      details: { context: 'getAllBookings', mismatches: ['no bookings are listed'] },
+    });
+  });
+
+  test('should fail with a timeout error when the response exceeds the latency budget', async () => {
+    await expect(bookings.list({ expect: { maxLatencyMs: 0 } })).rejects.toMatchObject({
+      category: ErrorCategory.TIMEOUT,
+      details: { context: 'getAllBookings', maxLatencyMs: 0 },
+    });
+  });
+
+  test('should keep the expectations of parallel requests apart', async ({
+    bookingFactory,
+    resourceRegistry,
+  }) => {
+    const [first, second] = [
+      bookingFactory.booking().withName('Parallel', 'First').build(),
+      bookingFactory.booking().withName('Concurrent', 'Second').build(),
+    ];
+
+    const [firstResponse, secondResponse] = await Promise.all([
+      bookings.create(first, { expect: { body: [createdBookingNamed(first.firstname)] } }),
+      bookings.create(second, { expect: { body: [createdBookingNamed(second.firstname)] } }),
+      // A rejected request in between must not turn the others into negative requests
+      bookings.expectRejection('get', 404, { id: 0 }),
+    ]);
+    resourceRegistry.trackCreated('booking', firstResponse.data);
+    resourceRegistry.trackCreated('booking', secondResponse.data);
+
+    for (const [response, payload] of [
+      [firstResponse, first],
+      [secondResponse, second],
+    ] as const) {
+      const { expectation } = response.config;
+      expect(expectation?.isNegative).toBe(false);
+      expect(expectation?.body.map(({ description }) => description)).toEqual([
+        `booking.firstname is '${payload.firstname}'`,
+      ]);
+    }
+  });
+});
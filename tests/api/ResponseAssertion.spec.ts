@@ -0,0 +1,51 @@
+import { AxiosResponse } from 'axios';
+import { expect, test } from '../../fixtures/restfulBooker.fixture';
+import { assertThat } from '../../src/api/validators/responseAssertion';
+import { MaskValue } from '../../src/utils/sanitization/sanitizationDefaults';
+import { captureThrown } from '../helpers/captureThrown';
+
+const REQUEST_NAME = 'requestTokenWithValidCredentials';
+
+/**
+ * Checks a failed assertion names the token request and shows its body with the token masked.
+ */
+function expectFailureReport(error: unknown, subject: string, token: string): void {
+  expect(error).toBeInstanceOf(Error);
+  const { message } = error as Error;
+
+  expect(message).toContain(`${subject} of ${REQUEST_NAME}`);
+  expect(message).toContain('Response body (sanitised)');
+  expect(message).toContain(MaskValue);
+  expect(message).not.toContain(token);
+}
+
+test.describe('Response Assertion Failures @regression', () => {
+  let response: AxiosResponse<{ token: string }>;
+
+  test.beforeEach(async ({ authenticationToken }) => {
+    response = await authenticationToken.requestTokenWithValidCredentials();
+  });
+
+  test('should report a status mismatch with the sanitised body', () => {
+    const error = captureThrown(() => assertThat(response).hasStatus(201));
+
+    expectFailureReport(error, 'status', response.data.token);
+  });
+
+  test('should report a missing body property with the sanitised body', () => {
+    const error = captureThrown(() => assertThat(response).body('booking.bookingid'));
+
+    expectFailureReport(error, "body property 'booking.bookingid'", response.data.token);
+  });
+
+  test('should diff the body without revealing masked fields', () => {
+    const { token } = response.data;
+
+    const error = captureThrown(() =>
+      assertThat(response).hasBody({ token: `not-${token}`, reason: 'Bad credentials' }),
+    );
+
+    expectFailureReport(error, 'body', token);
+    expect((error as Error).message).not.toContain(`not-${token}`);
+  });
+});
@@ -0,0 +1,102 @@
+import { expect, test } from '../../fixtures/contract.fixture';
+import ContractLoader from '../../src/api/contract/contractLoader';
+import { ContractDriftDetector } from '../../src/api/contract/contractDriftDetector';
+import { ContractDriftReport } from '../../src/models/api/contractDrift.interface';
+import { OpenApiDocument } from '../../src/models/api/openApi.interface';
+import AsyncFileManager from '../../src/utils/fileManagers/asyncFileManager';
+
+/**
+ * Writes a copy of the contract, changed by `change`, to the given path.
+ *
+ * @returns The path of the changed contract
+ */
+async function writeChangedContract(
+  contractPath: string,
+  change: (contract: OpenApiDocument) => void,
+): Promise<string> {
+  const contract = await ContractLoader.load();
+  change(contract);
+  await AsyncFileManager.writeFile(
+    contractPath,
+    JSON.stringify(contract, null, 2),
+    'changed contract',
+  );
+  return contractPath;
+}
+
+test.describe('Contract Drift @contract', () => {
+  test('API responses match the OpenAPI contract @contract-drift', async ({
+    contractDriftDetector,
+    testInfo,
+  }) => {
+    const report = await contractDriftDetector.detect();
+    const reportPath = await contractDriftDetector.saveReport(report);
+    await testInfo.attach('contract-drift-report', {
+      path: reportPath,
+      contentType: 'application/json',
+    });
+
+    expect(ContractDriftDetector.summarize(report), 'Drift from the API contract').toEqual([]);
+  });
+
+  test.describe('Changed contract', () => {
+    let detectAgainst: (
+      change: (contract: OpenApiDocument) => void,
+    ) => Promise<ContractDriftReport>;
+
+    test.beforeEach(
+      ({ apiClient, apiBaseUrlBuilder, authStrategies, resourceRegistry, testInfo }) => {
+        detectAgainst = async (change) => {
+          const contractPath = await writeChangedContract(
+            testInfo.outputPath('contract.openapi.json'),
+            change,
+          );
+          const detector = new ContractDriftDetector(
+            apiClient,
+            apiBaseUrlBuilder,
+            authStrategies.create('cookie'),
+            resourceRegistry,
+            contractPath,
+          );
+          return detector.detect();
+        };
+      },
+    );
+
+    test('reports a status the contract no longer documents', async () => {
+      const report = await detectAgainst((contract) => {
+        delete contract.paths['/booking/{id}'].get?.responses['200'];
+      });
+
+      expect(report.summary).toMatchObject({ drifted: 1, findings: 1 });
+      expect(ContractDriftDetector.summarize(report)).toEqual([
+        'GET /booking/{id} (getBooking) undocumented-status: 200 is not documented, expected one of 404',
+      ]);
+    });
+
+    test('reports a renamed required field as missing and undeclared', async () => {
+      const report = await detectAgainst(({ components }) => {
+        const { bookingid, ...properties } = components.schemas.BookingResponse.properties ?? {};
+        components.schemas.BookingResponse.properties = { id: bookingid, ...properties };
+        components.schemas.BookingResponse.required = ['id', 'booking'];
+      });
+
+      expect(report.summary).toMatchObject({ drifted: 1, findings: 2 });
+      expect(ContractDriftDetector.summarize(report)).toEqual([
+        'POST /booking (createBooking) missing-field id: is required',
+        'POST /booking (createBooking) extra-field bookingid: is not allowed',
+      ]);
+    });
+
+    test('reports a field whose documented type changed', async () => {
+      const report = await detectAgainst(({ components }) => {
+        components.schemas.BookingResponse.properties!.bookingid = { type: 'string' };
+      });
+
+      expect(report.summary).toMatchObject({ drifted: 1, findings: 1 });
+      expect(ContractDriftDetector.summarize(report)).toEqual([
+        'POST /booking (createBooking) type-change bookingid: expected string, received number',
+      ]);
+    });
+  });
+});
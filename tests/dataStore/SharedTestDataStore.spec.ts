@@ -0,0 +1,46 @@
+import { expect, test } from '../../fixtures/restfulBooker.fixture';
+import { BookingMap } from '../../src/utils/dataStore/maps/bookingMaps';
+import TestDataStore from '../../src/utils/dataStore/utils/testDataStore';
+import TestDataStoreFlag from '../../src/utils/environment/testDataStoreFlag';
+import logger from '../../src/utils/logging/loggerManager';
+
+const READERS = 3;
+
+test.describe('Shared Test Data Store @data-store', () => {
+  test.describe.configure({ mode: 'parallel' });
+
+  test.beforeEach(() => {
+    test.skip(
+      TestDataStoreFlag.getMode() !== 'file',
+      'Only TEST_DATA_STORE=file shares values with other workers',
+    );
+  });
+
+  for (let reader = 1; reader <= READERS; reader++) {
+    test(`reader ${reader} sees the booking stored by the setup project`, async ({
+      testId,
+    }, testInfo) => {
+      const setupBookingId = testId.TEST_IDS.sharedTestIds.SETUP_BOOKING;
+
+      const booking = await TestDataStore.getValue(
+        BookingMap.booking,
+        setupBookingId,
+        'booking',
+        true,
+      );
+      const storedByPid = await TestDataStore.getValue(
+        BookingMap.booking,
+        setupBookingId,
+        'storedByPid',
+        true,
+      );
+
+      expect(booking).toMatchObject({ firstname: 'Setup', lastname: 'Project' });
+      // Projects never share workers, so the setup project stored it from another process
+      expect(storedByPid).not.toBe(process.pid);
+      logger.info(
+        `Worker ${testInfo.workerIndex} read booking '${setupBookingId}' stored by process ${storedByPid}.`,
+      );
+    });
+  }
+});
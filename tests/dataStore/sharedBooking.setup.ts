@@ -0,0 +1,24 @@
+import { test as setup } from '../../fixtures/restfulBooker.fixture';
+import { BookingMap } from '../../src/utils/dataStore/maps/bookingMaps';
+import TestDataStore from '../../src/utils/dataStore/utils/testDataStore';
+import TestDataStoreFlag from '../../src/utils/environment/testDataStoreFlag';
+import logger from '../../src/utils/logging/loggerManager';
+
+setup('store a booking for the workers @data-store', async ({ bookingFactory, testId }) => {
+  setup.skip(
+    TestDataStoreFlag.getMode() !== 'file',
+    'Only TEST_DATA_STORE=file shares values with other workers',
+  );
+  const setupBookingId = testId.TEST_IDS.sharedTestIds.SETUP_BOOKING;
+
+  await BookingMap.booking.delete(setupBookingId);
+  await TestDataStore.setValue(
+    BookingMap.booking,
+    setupBookingId,
+    'booking',
+    bookingFactory.booking().withName('Setup', 'Project').build(),
+  );
+  await TestDataStore.setValue(BookingMap.booking, setupBookingId, 'storedByPid', process.pid);
+
+  logger.info(`Setup project stored booking '${setupBookingId}' in process ${process.pid}.`);
+});
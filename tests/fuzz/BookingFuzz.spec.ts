@@ -0,0 +1,49 @@
+import { expect, test } from '../../fixtures/restfulBooker.fixture';
+import { FuzzRunner } from '../../src/api/fuzz/fuzzRunner';
+import { BookingPayloadGenerators } from '../../src/testData/fuzz/bookingPayloadGenerators';
+
+test.describe('Booking Payload Fuzzing @fuzz', () => {
+  test('Edge-case bookings are answered without server errors and per contract', async ({
+    fuzzRunner,
+    bookingEndpointBuilder,
+  }, testInfo) => {
+    const report = await fuzzRunner.run(
+      {
+        method: 'post',
+        endpoint: await bookingEndpointBuilder.bookingEndpoint(),
+        responseSchema: 'BookingResponse',
+        createdResource: 'booking',
+      },
+      BookingPayloadGenerators.edgeCases(),
+    );
+    await testInfo.attach('fuzz-report', {
+      body: JSON.stringify(report, null, 2),
+      contentType: 'application/json',
+    });
+
+    expect(FuzzRunner.summarize(report), `Fuzz failures (seed ${report.seed})`).toEqual([]);
+  });
+
+  test('Malformed bookings are rejected without server errors', async ({
+    fuzzRunner,
+    bookingEndpointBuilder,
+  }, testInfo) => {
+    // Known defect: Restful Booker answers incomplete or mistyped bookings with 500 instead of 400
+    test.fail();
+
+    const report = await fuzzRunner.run(
+      {
+        method: 'post',
+        endpoint: await bookingEndpointBuilder.bookingEndpoint(),
+        createdResource: 'booking',
+      },
+      BookingPayloadGenerators.malformed(),
+    );
+    await testInfo.attach('fuzz-report', {
+      body: JSON.stringify(report, null, 2),
+      contentType: 'application/json',
+    });
+
+    expect(FuzzRunner.summarize(report), `Fuzz failures (seed ${report.seed})`).toEqual([]);
+  });
+});
@@ -0,0 +1,12 @@
+/**
+ * Runs the callback and returns what it threw, so the error's category, details or message
+ * can be checked.
+ */
+export function captureThrown(callback: () => unknown): unknown {
+  try {
+    callback();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected the callback to throw');
+}
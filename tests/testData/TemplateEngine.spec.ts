@@ -0,0 +1,173 @@
+import { expect, test } from '../../fixtures/restfulBooker.fixture';
+import { Booking } from '../../src/models/api/booking.interface';
+import { BOOKING_FACTORY_PARAMS } from '../../src/models/api/bookingFactory.interface';
+import { CONTRACT_PARAMS } from '../../src/models/api/openApi.interface';
+import { ErrorCategory } from '../../src/models/utils/errorCategory.enum';
+import { BookingDateGenerator } from '../../src/testData/bookingDateGenerator';
+import { TemplateEngine } from '../../src/testData/templates/templateEngine';
+import { AppError } from '../../src/utils/errors/AppError';
+import Clock from '../../src/utils/time/clock';
+import { captureThrown } from '../helpers/captureThrown';
+
+const SOURCE = { file: 'inline template' };
+
+test.describe('Test-Data Template Engine @templates', () => {
+  test.afterEach(() => {
+    BookingDateGenerator.resetTimeZone();
+    Clock.unfreeze();
+  });
+
+  test('resolves the generated Booking template from context values, keeping their types', async ({
+    templateEngine,
+  }) => {
+    const context = {
+      firstname: 'Alice',
+      lastname: 'Smith',
+      totalprice: 320,
+      depositpaid: true,
+      checkin: '2026-05-01',
+      checkout: '2026-05-03',
+      additionalneeds: 'Breakfast',
+    };
+
+    const booking = await templateEngine.resolveFile<Booking>(
+      CONTRACT_PARAMS.TEMPLATES_OUTPUT,
+      context,
+      'Booking',
+    );
+
+    expect(booking).toEqual({
+      firstname: 'Alice',
+      lastname: 'Smith',
+      totalprice: 320,
+      depositpaid: true,
+      bookingdates: { checkin: '2026-05-01', checkout: '2026-05-03' },
+      additionalneeds: 'Breakfast',
+    });
+  });
+
+  test('resolves dotted context variables inside longer strings', ({ templateEngine }) => {
+    const resolved = templateEngine.resolve(
+      { greeting: 'Dear ${guest.firstname} ${guest.lastname}' },
+      { guest: { firstname: 'Zoë', lastname: "O'Brien" } },
+      SOURCE,
+    );
+
+    expect(resolved).toEqual({ greeting: "Dear Zoë O'Brien" });
+  });
+
+  test('resolves date expressions relative to the clock', ({ templateEngine }) => {
+    // 2028-02-27 12:00 UTC is already 2028-02-28 in Auckland (UTC+13), so pin a timezone
+    // where it is still the 27th; 2028 is a leap year
+    BookingDateGenerator.useTimeZone('Europe/London');
+    Clock.freeze(new Date('2028-02-27T12:00:00Z'));
+
+    const resolved = templateEngine.resolve(
+      { today: '${today}', checkin: '${today+2d}', checkout: '${today+4d}', past: '${today-2d}' },
+      {},
+      SOURCE,
+    );
+
+    expect(resolved).toEqual({
+      today: '2028-02-27',
+      checkin: '2028-02-29',
+      checkout: '2028-03-02',
+      past: '2028-02-25',
+    });
+  });
+
+  test('resolves environment variables', ({ templateEngine }) => {
+    process.env.TEMPLATE_ENGINE_SPEC_GUEST = 'Taylor';
+    try {
+      const resolved = templateEngine.resolve(
+        {
+          firstname: '${env.TEMPLATE_ENGINE_SPEC_GUEST}',
+          note: 'Booked by ${env.TEMPLATE_ENGINE_SPEC_GUEST}',
+        },
+        {},
+        SOURCE,
+      );
+
+      expect(resolved).toEqual({ firstname: 'Taylor', note: 'Booked by Taylor' });
+    } finally {
+      delete process.env.TEMPLATE_ENGINE_SPEC_GUEST;
+    }
+  });
+
+  test('resolves generators from the seeded booking factory', ({ templateEngine }) => {
+    const resolved = templateEngine.resolve<Record<string, unknown>>(
+      {
+        firstname: '${random.firstname}',
+        totalprice: '${random.totalprice}',
+        depositpaid: '${random.depositpaid}',
+        label: 'Price ${random.totalprice}',
+      },
+      {},
+      SOURCE,
+    );
+
+    expect(typeof resolved.firstname).toBe('string');
+    expect(resolved.totalprice).toBeGreaterThanOrEqual(BOOKING_FACTORY_PARAMS.MIN_PRICE);
+    expect(resolved.totalprice).toBeLessThanOrEqual(BOOKING_FACTORY_PARAMS.MAX_PRICE);
+    expect(typeof resolved.depositpaid).toBe('boolean');
+    expect(resolved.label).toMatch(/^Price \d+$/);
+  });
+
+  test('calls a generator once per placeholder', () => {
+    let calls = 0;
+    const engine = new TemplateEngine({ counter: () => ++calls });
+
+    const resolved = engine.resolve(['${random.counter}', '${random.counter}'], {}, SOURCE);
+
+    expect(resolved).toEqual([1, 2]);
+  });
+
+  test('lists every unresolved placeholder with its file and path', ({ templateEngine }) => {
+    const error = captureThrown(() =>
+      templateEngine.resolve(
+        {
+          firstname: '${firstname}',
+          lastname: '${env.TEMPLATE_ENGINE_SPEC_UNSET}',
+          tags: ['${random.nickname}'],
+        },
+        {},
+        { file: 'bookings.template.json', path: 'Booking' },
+      ),
+    );
+
+    expect(error).toBeInstanceOf(AppError);
+    expect(error).toMatchObject({
+      category: ErrorCategory.VALIDATION,
+      details: {
+        file: 'bookings.template.json',
+        path: 'Booking',
+        unresolved: [
+          {
+            path: 'Booking.firstname',
+            placeholder: '${firstname}',
+            reason: "no context variable 'firstname'",
+          },
+          {
+            path: 'Booking.lastname',
+            placeholder: '${env.TEMPLATE_ENGINE_SPEC_UNSET}',
+            reason: 'environment variable TEMPLATE_ENGINE_SPEC_UNSET is not set',
+          },
+          {
+            path: 'Booking.tags[0]',
+            placeholder: '${random.nickname}',
+            reason: "no generator 'nickname'",
+          },
+        ],
+      },
+    });
+    expect((error as AppError).message).toContain(
+      'Unresolved placeholder(s) in bookings.template.json',
+    );
+  });
+
+  test('rejects a template file without the requested template', async ({ templateEngine }) => {
+    await expect(
+      templateEngine.resolveFile(CONTRACT_PARAMS.TEMPLATES_OUTPUT, {}, 'Guest'),
+    ).rejects.toMatchObject({ category: ErrorCategory.PARSING, details: { key: 'Guest' } });
+  });
+});